@@ -0,0 +1,40 @@
+// Keeps the app shell, so the dashboard opens offline and shows the data
+// the app cached in IndexedDB. Requests go to the network first and fall back
+// to the cache. Data requests (fetch and XHR, which have no destination) are
+// left alone: offline they fail, so the app knows its cached data is stale.
+const CACHE_NAME = 'clinic-outcomes-v2';
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.add('/')).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  if (request.method !== 'GET' || request.destination === '' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(async () => {
+        // Every route is the same single page app
+        const cached = await caches.match(request) ?? (request.mode === 'navigate' ? await caches.match('/') : undefined);
+        return cached ?? Response.error();
+      })
+  );
+});
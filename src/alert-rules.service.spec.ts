@@ -0,0 +1,92 @@
+import { PatientSummary } from './clinic-reports.service';
+import { STANDARD_GLUCOSE_SETTINGS } from './glucose-settings.service';
+import { AlertRulesService, DEFAULT_ALERT_RULES, alertMetricLabel, buildWorklist } from './alert-rules.service';
+
+function patient(patientId: string, changes: Partial<PatientSummary> = {}): PatientSummary {
+  return {
+    patientId,
+    daysWithData: 30,
+    gmi: 7,
+    timeInRange: { inRange: 75, aboveRange: 23, belowRange: 2, veryLow: 0.5, low: 1.5, high: 20, veryHigh: 3 },
+    sensorWear: 90,
+    lastUpload: '2024-01-30T08:00:00Z',
+    ...changes
+  };
+}
+
+describe('buildWorklist', () => {
+  const timeInRange = patient('').timeInRange;
+
+  it('should leave out patients who break no rule', () => {
+    expect(buildWorklist([patient('p1')], [], DEFAULT_ALERT_RULES)).toEqual([]);
+  });
+
+  it('should list patients by their highest priority, then by how many rules they break', () => {
+    const entries = buildWorklist([
+      patient('low-wear', { sensorWear: 60 }),
+      patient('hypo', { timeInRange: { ...timeInRange, veryLow: 2 } }),
+      patient('hypo-and-wear', { timeInRange: { ...timeInRange, veryLow: 2 }, sensorWear: 60 })
+    ], [], DEFAULT_ALERT_RULES);
+
+    expect(entries.map(entry => entry.patient.patientId)).toEqual(['hypo-and-wear', 'hypo', 'low-wear']);
+    expect(entries.map(entry => entry.priority)).toEqual(['high', 'high', 'low']);
+    expect(entries[0].alerts.map(alert => alert.rule.id)).toEqual(['very-low', 'sensor-wear']);
+  });
+
+  it('should flag a GMI rise since the previous period', () => {
+    const entries = buildWorklist(
+      [patient('rose', { gmi: 7.8 }), patient('steady', { gmi: 7.5 }), patient('new', { gmi: 9 })],
+      [patient('rose', { gmi: 7.2 }), patient('steady', { gmi: 7 })],
+      DEFAULT_ALERT_RULES
+    );
+
+    expect(entries.length).toBe(1);
+    expect(entries[0].patient.patientId).toBe('rose');
+    expect(entries[0].alerts[0].value).toBe(0.6);
+  });
+
+  it('should skip disabled rules and patients without sensor wear', () => {
+    const rules = DEFAULT_ALERT_RULES.map(rule => ({ ...rule, enabled: rule.id === 'sensor-wear' }));
+
+    const entries = buildWorklist([
+      patient('hypo', { timeInRange: { ...timeInRange, veryLow: 2 } }),
+      patient('unknown', { sensorWear: undefined })
+    ], [], rules);
+
+    expect(entries).toEqual([]);
+  });
+});
+
+describe('alertMetricLabel', () => {
+  it('should name the range boundary in the chosen unit', () => {
+    expect(alertMetricLabel('veryLow', STANDARD_GLUCOSE_SETTINGS.ranges)).toBe('Time below 54 mg/dL');
+    expect(alertMetricLabel('veryHigh', STANDARD_GLUCOSE_SETTINGS.ranges, 'mmol/L')).toBe('Time above 13.9 mmol/L');
+  });
+});
+
+describe('AlertRulesService', () => {
+  beforeEach(() => localStorage.removeItem('clinic-outcomes.alert-rules'));
+
+  afterEach(() => localStorage.removeItem('clinic-outcomes.alert-rules'));
+
+  it('should start with the default rules', () => {
+    expect(new AlertRulesService().rules).toEqual(DEFAULT_ALERT_RULES);
+  });
+
+  it('should remember changed rules and reset them', () => {
+    const rules = DEFAULT_ALERT_RULES.map(rule => rule.id === 'very-low' ? { ...rule, threshold: 2, priority: 'medium' as const } : rule);
+    new AlertRulesService().setRules(rules);
+
+    const service = new AlertRulesService();
+    expect(service.rules.find(rule => rule.id === 'very-low')).toEqual(jasmine.objectContaining({ threshold: 2, priority: 'medium' }));
+
+    service.resetRules();
+    expect(new AlertRulesService().rules).toEqual(DEFAULT_ALERT_RULES);
+  });
+
+  it('should keep the defaults for saved values that are not valid', () => {
+    localStorage.setItem('clinic-outcomes.alert-rules', JSON.stringify([{ id: 'very-low', threshold: 'two', priority: 'urgent' }]));
+
+    expect(new AlertRulesService().rules).toEqual(DEFAULT_ALERT_RULES);
+  });
+});
@@ -0,0 +1,189 @@
+import { Injectable } from '@angular/core';
+import { PatientSummary, TimeInRange } from './clinic-reports.service';
+import { GlucoseRanges } from './glucose-settings.service';
+import { GlucoseUnit, formatGlucose } from './glucose-unit.service';
+import { formatNumber, t } from './i18n.service';
+
+// Patient-level figures a rule can test
+export type AlertMetric = 'veryLow' | 'belowRange' | 'inRange' | 'veryHigh' | 'gmi' | 'gmiChange' | 'sensorWear';
+
+export type AlertPriority = 'high' | 'medium' | 'low';
+
+// e.g. time below 54 mg/dL > 1%
+export interface AlertRule {
+  id: string;
+  metric: AlertMetric;
+  operator: '>' | '<';
+  threshold: number; // % for every metric but gmiChange, which is in GMI percentage points
+  priority: AlertPriority;
+  enabled: boolean;
+}
+
+// A rule a patient breaks, with the patient's figure
+export interface PatientAlert {
+  rule: AlertRule;
+  value: number;
+}
+
+// A patient to follow up, with every rule they break
+export interface WorklistEntry {
+  patient: PatientSummary;
+  alerts: PatientAlert[];
+  priority: AlertPriority;
+}
+
+// Based on the International Consensus targets and sensor wear goal
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'very-low', metric: 'veryLow', operator: '>', threshold: 1, priority: 'high', enabled: true },
+  { id: 'below-range', metric: 'belowRange', operator: '>', threshold: 4, priority: 'high', enabled: true },
+  { id: 'gmi-rise', metric: 'gmiChange', operator: '>', threshold: 0.5, priority: 'medium', enabled: true },
+  { id: 'very-high', metric: 'veryHigh', operator: '>', threshold: 5, priority: 'medium', enabled: true },
+  { id: 'high-gmi', metric: 'gmi', operator: '>', threshold: 8, priority: 'medium', enabled: false },
+  { id: 'in-range', metric: 'inRange', operator: '<', threshold: 50, priority: 'low', enabled: false },
+  { id: 'sensor-wear', metric: 'sensorWear', operator: '<', threshold: 70, priority: 'low', enabled: true }
+];
+
+const PRIORITY_ORDER: AlertPriority[] = ['high', 'medium', 'low'];
+
+const STORAGE_KEY = 'clinic-outcomes.alert-rules';
+
+/**
+ * Name of the figure a rule tests, e.g. "Time below 54 mg/dL"
+ * @param metric - The figure
+ * @param ranges - The ranges the patients' time in range was computed with
+ * @param unit - The unit to show the boundaries in
+ */
+export function alertMetricLabel(metric: AlertMetric, ranges: GlucoseRanges, unit: GlucoseUnit = 'mg/dL'): string {
+  const glucose = (mgdl: number) => `${formatGlucose(mgdl, unit)} ${unit}`;
+  switch (metric) {
+    case 'veryLow':
+      return t('Time below {value}', { value: glucose(ranges.veryLow) });
+    case 'belowRange':
+      return t('Time below {value}', { value: glucose(ranges.low) });
+    case 'inRange':
+      return t('Time in range');
+    case 'veryHigh':
+      return t('Time above {value}', { value: glucose(ranges.veryHigh) });
+    case 'gmi':
+      return 'GMI';
+    case 'gmiChange':
+      return t('GMI change since the previous period');
+    case 'sensorWear':
+      return t('Sensor wear');
+  }
+}
+
+/**
+ * A figure as a rule shows it, e.g. "1.5%" or "+0.6" for a GMI change
+ * @param metric - The figure
+ * @param value - Its value
+ */
+export function formatAlertValue(metric: AlertMetric, value: number): string {
+  return metric === 'gmiChange'
+    ? `${value > 0 ? '+' : ''}${formatNumber(value, 1)}`
+    : `${formatNumber(value, Number.isInteger(value) ? 0 : 1)}%`;
+}
+
+/**
+ * A patient's value of the figure a rule tests, or null when it is unknown
+ * @param metric - The figure
+ * @param patient - The patient in the reporting window
+ * @param previous - The same patient in the previous window, if they had enough data
+ */
+export function alertMetricValue(metric: AlertMetric, patient: PatientSummary, previous?: PatientSummary): number | null {
+  switch (metric) {
+    case 'gmi':
+      return patient.gmi;
+    case 'gmiChange':
+      // Rounded so a rise of exactly the threshold does not count through float error
+      return previous ? Math.round((patient.gmi - previous.gmi) * 10) / 10 : null;
+    case 'sensorWear':
+      return patient.sensorWear ?? null;
+    default:
+      return patient.timeInRange[metric as keyof TimeInRange];
+  }
+}
+
+/**
+ * Patients who break at least one enabled rule, most urgent first: by their
+ * highest priority, then by how many rules they break
+ * @param patients - Included patients in the reporting window
+ * @param previousPatients - Included patients in the previous window, for changes
+ * @param rules - The rules to apply
+ */
+export function buildWorklist(patients: PatientSummary[], previousPatients: PatientSummary[], rules: AlertRule[]): WorklistEntry[] {
+  const previous = new Map(previousPatients.map(patient => [patient.patientId, patient]));
+  const rank = (priority: AlertPriority) => PRIORITY_ORDER.indexOf(priority);
+
+  return patients
+    .map(patient => {
+      const alerts = rules
+        .filter(rule => rule.enabled)
+        .map(rule => ({ rule, value: alertMetricValue(rule.metric, patient, previous.get(patient.patientId)) }))
+        .filter((alert): alert is PatientAlert => alert.value !== null &&
+          (alert.rule.operator === '>' ? alert.value > alert.rule.threshold : alert.value < alert.rule.threshold))
+        .sort((a, b) => rank(a.rule.priority) - rank(b.rule.priority));
+      return { patient, alerts, priority: alerts[0]?.rule.priority ?? 'low' };
+    })
+    .filter(entry => entry.alerts.length)
+    .sort((a, b) => rank(a.priority) - rank(b.priority) ||
+      b.alerts.length - a.alerts.length ||
+      a.patient.patientId.localeCompare(b.patient.patientId));
+}
+
+/**
+ * The rules the worklist applies, persisted in local storage. Saved rules
+ * are matched to the default ones by id, so new default rules appear.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AlertRulesService {
+
+  private current: AlertRule[] = this.load();
+
+  get rules(): AlertRule[] {
+    return this.current;
+  }
+
+  /**
+   * Save changes to the rules' thresholds, priorities and whether they apply
+   * @param rules - Every rule
+   */
+  setRules(rules: AlertRule[]) {
+    this.current = rules;
+    this.persist();
+  }
+
+  resetRules() {
+    this.current = DEFAULT_ALERT_RULES;
+    this.persist();
+  }
+
+  // Saved values that are not valid keep the default
+  private load(): AlertRule[] {
+    try {
+      const saved: Partial<AlertRule>[] = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return DEFAULT_ALERT_RULES.map(rule => {
+        const match = saved.find(candidate => candidate.id === rule.id);
+        return match ? {
+          ...rule,
+          threshold: Number.isFinite(match.threshold) ? match.threshold! : rule.threshold,
+          priority: PRIORITY_ORDER.includes(match.priority!) ? match.priority! : rule.priority,
+          enabled: typeof match.enabled === 'boolean' ? match.enabled : rule.enabled
+        } : rule;
+      });
+    } catch {
+      return DEFAULT_ALERT_RULES;
+    }
+  }
+
+  // Rules stay in memory when local storage is unavailable
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.current));
+    } catch (error) {
+      console.warn('Alert rules could not be saved to local storage:', error);
+    }
+  }
+}
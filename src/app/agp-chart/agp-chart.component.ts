@@ -0,0 +1,83 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartConfiguration } from 'chart.js';
+import { AgpReport } from '../../clinic-metrics.service';
+import { GlucoseRanges, STANDARD_GLUCOSE_SETTINGS } from '../../glucose-settings.service';
+import { GlucoseUnit, toGlucoseUnit } from '../../glucose-unit.service';
+import { t } from '../../i18n.service';
+import { ChartComponent } from '../chart-component';
+import { ChartTable, agpTable, formatMinuteOfDay } from '../chart-tables';
+import { glucoseAxis, targetRangePlugin } from '../chart-plugins/target-range.plugin';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+
+/**
+ * Ambulatory Glucose Profile: the median, 25-75th and 5-95th percentile
+ * bands of a patient's readings by time of day, over the target range
+ */
+@Component({
+  selector: 'app-agp-chart',
+  imports: [CommonModule, ChartDataTableComponent],
+  templateUrl: './agp-chart.component.html',
+  styleUrl: './agp-chart.component.css'
+})
+export class AgpChartComponent extends ChartComponent {
+  @Input() report: AgpReport | null = null;
+  // The clinic's ranges, for the shaded target range
+  @Input() ranges: GlucoseRanges = STANDARD_GLUCOSE_SETTINGS.ranges;
+  @Input() unit: GlucoseUnit = 'mg/dL';
+
+  get title(): string {
+    return t('Ambulatory Glucose Profile');
+  }
+
+  protected override buildTable(): ChartTable | null {
+    return this.report ? agpTable(this.report, this.unit) : null;
+  }
+
+  protected config(): ChartConfiguration {
+    const profile = this.report?.profile ?? [];
+    const band = (label: string, data: (number | null)[], fill: string | boolean, color: string) => ({
+      label,
+      data: data.map(mgdl => mgdl === null ? null : toGlucoseUnit(mgdl, this.unit)),
+      fill,
+      borderColor: color,
+      backgroundColor: color,
+      borderWidth: 1,
+      pointRadius: 0,
+      tension: 0.4,
+      spanGaps: true
+    });
+
+    // Outer band 5-95th, inner band 25-75th, each filled to the dataset before it
+    return {
+      type: 'line',
+      data: {
+        labels: profile.map(bin => formatMinuteOfDay(bin.minuteOfDay)),
+        datasets: [
+          band(t('{p}th percentile', { p: 5 }), profile.map(bin => bin.p5), false, 'rgba(0, 123, 255, 0.15)'),
+          band(t('{p}th percentile', { p: 95 }), profile.map(bin => bin.p95), '-1', 'rgba(0, 123, 255, 0.15)'),
+          band(t('{p}th percentile', { p: 25 }), profile.map(bin => bin.p25), false, 'rgba(0, 123, 255, 0.35)'),
+          band(t('{p}th percentile', { p: 75 }), profile.map(bin => bin.p75), '-1', 'rgba(0, 123, 255, 0.35)'),
+          { ...band(t('Median'), profile.map(bin => bin.p50), false, '#0056b3'), borderWidth: 2 }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index', intersect: false },
+        plugins: {
+          legend: { display: false },
+          targetRange: { low: toGlucoseUnit(this.ranges.low, this.unit), high: toGlucoseUnit(this.ranges.high, this.unit) }
+        },
+        scales: {
+          x: {
+            grid: { display: false },
+            ticks: { maxTicksLimit: 9 }
+          },
+          y: glucoseAxis(this.unit)
+        }
+      },
+      plugins: [targetRangePlugin]
+    };
+  }
+}
@@ -1,9 +1,32 @@
-import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
-import { provideHttpClient } from '@angular/common/http';
+import { ApplicationConfig, LOCALE_ID, provideAppInitializer, provideZoneChangeDetection } from '@angular/core';
+import { registerLocaleData } from '@angular/common';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import localeEs from '@angular/common/locales/es';
+import localeFr from '@angular/common/locales/fr';
+import { Chart } from 'chart.js';
+import { routes } from './app.routes';
+import { provideClinicDataSource } from '../data-sources/provide-clinic-data-source';
+import { currentLocale } from '../i18n.service';
+import { environment } from '../environments/environment';
+
+// Date and number pipes for the translated locales
+registerLocaleData(localeEs);
+registerLocaleData(localeFr);
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideZoneChangeDetection({ eventCoalescing: true }),
-    provideHttpClient()
+    // In development builds the mock backend answers /mock-api and /mock-fhir in memory
+    provideHttpClient(withInterceptors(environment.httpInterceptors)),
+    provideRouter(routes),
+    // The locale is fixed for the life of the app; changing it reloads
+    { provide: LOCALE_ID, useFactory: currentLocale },
+    provideAppInitializer(() => {
+      Chart.defaults.locale = currentLocale();
+      document.documentElement.lang = currentLocale();
+    }),
+    // Or { kind: 'rest', baseUrl: '/mock-api' } / { kind: 'fhir', baseUrl: '/mock-fhir' } to use the mock backend
+    provideClinicDataSource({ kind: 'static' })
   ]
 };
@@ -0,0 +1,15 @@
+import { Routes } from '@angular/router';
+import { DashboardComponent } from './dashboard/dashboard.component';
+
+export const routes: Routes = [
+  { path: '', component: DashboardComponent },
+  {
+    path: 'patients/:id',
+    loadComponent: () => import('./patient-report/patient-report.component').then(m => m.PatientReportComponent)
+  },
+  {
+    path: 'settings',
+    loadComponent: () => import('./glucose-settings/glucose-settings.component').then(m => m.GlucoseSettingsComponent)
+  },
+  { path: '**', redirectTo: '' }
+];
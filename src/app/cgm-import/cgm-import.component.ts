@@ -0,0 +1,83 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CgmImportResult, CgmImportService } from '../../cgm-import.service';
+import { Clinic, Provider } from '../../clinic-reports.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+// Outcome of importing one selected file
+export interface ImportedFile {
+  fileName: string;
+  result?: CgmImportResult;
+  error?: string;
+}
+
+// Rejected rows listed per file; the rest are only counted
+const MAX_REJECTED_SHOWN = 50;
+
+@Component({
+  selector: 'app-cgm-import',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './cgm-import.component.html',
+  styleUrl: './cgm-import.component.css'
+})
+export class CgmImportComponent {
+  @Input() clinics: Clinic[] = [];
+  @Output() imported = new EventEmitter<void>();
+
+  patientId = '';
+  timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  clinicId = '';
+  providerId = '';
+  files: ImportedFile[] = [];
+  importing = false;
+  readonly maxRejectedShown = MAX_REJECTED_SHOWN;
+
+  constructor(private cgmImport: CgmImportService) {}
+
+  // Providers of the chosen clinic
+  get providers(): Provider[] {
+    return this.clinics.find(clinic => clinic.id === this.clinicId)?.providers ?? [];
+  }
+
+  onClinicChange(clinicId: string) {
+    // A provider belongs to one clinic, so changing clinic resets it
+    this.clinicId = clinicId;
+    this.providerId = '';
+  }
+
+  /**
+   * Import the selected Dexcom Clarity / LibreView exports for the chosen
+   * clinic and provider.
+   * Without a patient ID each file is imported under its file name.
+   * @param input - The file input
+   */
+  async onFilesSelected(input: HTMLInputElement) {
+    const selected = Array.from(input.files ?? []);
+    if (!selected.length) return;
+
+    this.importing = true;
+    let added = 0;
+
+    for (const file of selected) {
+      const patientId = this.patientId.trim() || file.name.replace(/\.[^.]+$/, '');
+      try {
+        const result = this.cgmImport.importFile(await file.text(), {
+          patientId,
+          timeZone: this.timeZone.trim() || undefined,
+          clinicId: this.clinicId || undefined,
+          providerId: this.providerId || undefined
+        });
+        added += result.newReadings;
+        this.files.unshift({ fileName: file.name, result });
+      } catch (error) {
+        this.files.unshift({ fileName: file.name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    input.value = '';
+    this.importing = false;
+    if (added) {
+      this.imported.emit();
+    }
+  }
+}
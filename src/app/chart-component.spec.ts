@@ -0,0 +1,30 @@
+import { updateChart } from './chart-component';
+
+function fakeChart(datasets: any[]) {
+  return { data: { labels: ['a'], datasets }, options: {}, update: jasmine.createSpy('update') } as any;
+}
+
+describe('updateChart', () => {
+  it('should update existing datasets in place', () => {
+    const dataset = { label: 'Low', data: [1] };
+    const chart = fakeChart([dataset]);
+
+    updateChart(chart, { type: 'bar', data: { labels: ['a', 'b'], datasets: [{ label: 'Low', data: [2, 3] }] }, options: { responsive: false } });
+
+    expect(chart.data.datasets[0]).toBe(dataset);
+    expect(dataset.data).toEqual([2, 3]);
+    expect(chart.data.labels).toEqual(['a', 'b']);
+    expect(chart.options).toEqual({ responsive: false });
+    expect(chart.update).toHaveBeenCalled();
+  });
+
+  it('should add and remove datasets to match the new data', () => {
+    const chart = fakeChart([{ data: [1] }, { data: [2] }]);
+
+    updateChart(chart, { type: 'line', data: { datasets: [{ data: [3] }] } });
+    expect(chart.data.datasets.length).toBe(1);
+
+    updateChart(chart, { type: 'line', data: { datasets: [{ data: [3] }, { data: [4] }, { data: [5] }] } });
+    expect(chart.data.datasets.map((dataset: any) => dataset.data[0])).toEqual([3, 4, 5]);
+  });
+});
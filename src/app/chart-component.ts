@@ -0,0 +1,79 @@
+import { AfterViewInit, Directive, ElementRef, OnChanges, OnDestroy, ViewChild } from '@angular/core';
+import { Chart, ChartConfiguration, registerables } from 'chart.js';
+import { ChartTable } from './chart-tables';
+
+Chart.register(...registerables);
+
+let nextSummaryId = 0;
+
+/**
+ * Move a chart to new data and options without destroying it, so it
+ * animates from its current values. Plugins are fixed when the chart is
+ * created and read the component's inputs when they draw.
+ * @param chart - The chart to update
+ * @param config - The configuration the chart would be created with now
+ */
+export function updateChart(chart: Chart, config: ChartConfiguration) {
+  const datasets = chart.data.datasets;
+  config.data.datasets.forEach((dataset, index) => {
+    if (datasets[index]) {
+      Object.assign(datasets[index], dataset);
+    } else {
+      datasets.push(dataset);
+    }
+  });
+  datasets.splice(config.data.datasets.length);
+  chart.data.labels = config.data.labels;
+  chart.options = config.options ?? {};
+  chart.update();
+}
+
+/**
+ * A chart drawn from its component's inputs. The chart is created once the
+ * canvas is in the view and updated in place whenever an input changes; the
+ * component's table is its text alternative.
+ */
+@Directive()
+export abstract class ChartComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @ViewChild('canvas') canvas?: ElementRef<HTMLCanvasElement>;
+
+  chart: Chart | null = null;
+  table: ChartTable | null = null;
+
+  // Read out by the aria-live region as keyboard users move through the chart
+  announcement = '';
+
+  // Id of the table summary the canvas is described by
+  readonly summaryId = `chart-summary-${++nextSummaryId}`;
+
+  // Caption for the chart in exports
+  abstract get title(): string;
+
+  protected abstract config(): ChartConfiguration;
+
+  protected buildTable(): ChartTable | null {
+    return null;
+  }
+
+  ngOnChanges() {
+    this.table = this.buildTable();
+    if (this.chart) {
+      updateChart(this.chart, this.config());
+    }
+  }
+
+  ngAfterViewInit() {
+    if (this.canvas) {
+      this.chart = new Chart(this.canvas.nativeElement, this.config());
+    }
+  }
+
+  ngOnDestroy() {
+    this.chart?.destroy();
+  }
+
+  // Keyboard navigation hands its announcements to the aria-live region
+  protected announce = (message: string) => {
+    this.announcement = message;
+  };
+}
@@ -0,0 +1,24 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartTable, summarizeTable } from '../chart-tables';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+/**
+ * The text alternative for a chart: a hidden summary the canvas points to
+ * with aria-describedby, and its figures as a table that can be expanded
+ */
+@Component({
+  selector: 'app-chart-data-table',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './chart-data-table.component.html',
+  styleUrl: './chart-data-table.component.css'
+})
+export class ChartDataTableComponent {
+  @Input() table: ChartTable = { caption: '', columns: [], rows: [] };
+  // Id of the summary, for the chart's aria-describedby
+  @Input() summaryId = '';
+
+  get summary(): string {
+    return summarizeTable(this.table);
+  }
+}
@@ -0,0 +1,92 @@
+import { GlucoseTier, GmiBucket } from '../../glucose-settings.service';
+import { ColorPalette } from '../../color-palette.service';
+
+export type FillPattern = 'solid' | 'diagonal' | 'crosshatch' | 'dots' | 'horizontal';
+
+// Neighbouring tiers and buckets never share a pattern, so segments stay
+// distinguishable without their colour
+export const SEGMENT_PATTERNS: { [key in GlucoseTier | GmiBucket]: FillPattern } = {
+  veryLow: 'crosshatch',
+  low: 'diagonal',
+  inRange: 'solid',
+  high: 'dots',
+  veryHigh: 'horizontal',
+  optimal: 'solid',
+  suboptimal: 'dots',
+  poor: 'diagonal'
+};
+
+const TILE_SIZE = 10;
+
+const cache = new Map<string, CanvasPattern>();
+
+function drawTile(ctx: CanvasRenderingContext2D, pattern: FillPattern) {
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  switch (pattern) {
+    case 'crosshatch':
+      ctx.moveTo(0, TILE_SIZE);
+      ctx.lineTo(TILE_SIZE, 0);
+      ctx.moveTo(0, 0);
+      ctx.lineTo(TILE_SIZE, TILE_SIZE);
+      ctx.stroke();
+      break;
+    case 'diagonal':
+      // Extra strokes through the corners keep the lines continuous across tiles
+      ctx.moveTo(0, TILE_SIZE);
+      ctx.lineTo(TILE_SIZE, 0);
+      ctx.moveTo(-1, 1);
+      ctx.lineTo(1, -1);
+      ctx.moveTo(TILE_SIZE - 1, TILE_SIZE + 1);
+      ctx.lineTo(TILE_SIZE + 1, TILE_SIZE - 1);
+      ctx.stroke();
+      break;
+    case 'dots':
+      ctx.arc(TILE_SIZE / 2, TILE_SIZE / 2, 1.5, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    case 'horizontal':
+      ctx.moveTo(0, TILE_SIZE / 2);
+      ctx.lineTo(TILE_SIZE, TILE_SIZE / 2);
+      ctx.stroke();
+      break;
+  }
+}
+
+/**
+ * A canvas fill of a colour overlaid with a light pattern
+ * @param color - The segment colour
+ * @param pattern - The pattern; solid returns the colour itself
+ */
+export function patternFill(color: string, pattern: FillPattern): string | CanvasPattern {
+  const key = `${color}:${pattern}`;
+  if (pattern === 'solid' || typeof document === 'undefined') {
+    return color;
+  }
+  if (!cache.has(key)) {
+    const tile = document.createElement('canvas');
+    tile.width = TILE_SIZE;
+    tile.height = TILE_SIZE;
+    const ctx = tile.getContext('2d');
+    if (!ctx) {
+      return color;
+    }
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, TILE_SIZE, TILE_SIZE);
+    drawTile(ctx, pattern);
+    cache.set(key, ctx.createPattern(tile, 'repeat')!);
+  }
+  return cache.get(key)!;
+}
+
+/**
+ * Fill for a time-in-range tier or GMI bucket segment; the colour-blind
+ * safe palette adds the segment's pattern
+ * @param segment - The tier or bucket with the colour it is drawn in
+ * @param palette - The user's palette
+ */
+export function segmentFill(segment: { key: GlucoseTier | GmiBucket; color: string }, palette: ColorPalette): string | CanvasPattern {
+  return palette === 'colorBlindSafe' ? patternFill(segment.color, SEGMENT_PATTERNS[segment.key]) : segment.color;
+}
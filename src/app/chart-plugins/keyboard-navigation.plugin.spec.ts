@@ -0,0 +1,46 @@
+import { describeElements, nextPosition } from './keyboard-navigation.plugin';
+
+describe('nextPosition', () => {
+  it('should start from the first or last position', () => {
+    expect(nextPosition(-1, 5, 'ArrowRight')).toBe(0);
+    expect(nextPosition(-1, 5, 'ArrowLeft')).toBe(4);
+  });
+
+  it('should wrap around at either end', () => {
+    expect(nextPosition(4, 5, 'ArrowDown')).toBe(0);
+    expect(nextPosition(0, 5, 'ArrowUp')).toBe(4);
+  });
+
+  it('should jump to the ends with Home and End', () => {
+    expect(nextPosition(2, 5, 'Home')).toBe(0);
+    expect(nextPosition(2, 5, 'End')).toBe(4);
+  });
+
+  it('should ignore other keys and empty charts', () => {
+    expect(nextPosition(2, 5, 'Tab')).toBeNull();
+    expect(nextPosition(-1, 0, 'ArrowRight')).toBeNull();
+  });
+});
+
+describe('describeElements', () => {
+  it('should name the tier and the bar of a stacked bar segment', () => {
+    const chart = { data: { labels: ['Current', 'Previous period'], datasets: [{ label: 'Low (54-69)', data: [1, 2.5] }] } } as any;
+    expect(describeElements(chart, [{ datasetIndex: 0, index: 1 }], 1, 2)).toBe('Low (54-69), Previous period: 2.5% (2 of 2)');
+  });
+
+  it('should leave out an unnamed bar', () => {
+    const chart = { data: { labels: [''], datasets: [{ label: 'Low (54-69)', data: [1] }] } } as any;
+    expect(describeElements(chart, [{ datasetIndex: 0, index: 0 }], 0, 5)).toBe('Low (54-69): 1% (1 of 5)');
+  });
+
+  it('should name a pie segment by its label', () => {
+    const chart = { data: { labels: ['≤7%', '7-8%', '≥8%'], datasets: [{ data: [72, 23, 5] }] } } as any;
+    expect(describeElements(chart, [{ datasetIndex: 0, index: 2 }], 2, 3)).toBe('≥8%: 5% (3 of 3)');
+  });
+
+  it('should read every series of a line chart label', () => {
+    const chart = { data: { labels: ['Jan 24'], datasets: [{ label: 'In Range (%)', data: [80] }, { label: 'Average GMI (%)', data: [6.8] }] } } as any;
+    const elements = [{ datasetIndex: 0, index: 0 }, { datasetIndex: 1, index: 0 }];
+    expect(describeElements(chart, elements, 0, 12)).toBe('Jan 24. In Range (%): 80%, Average GMI (%): 6.8% (1 of 12)');
+  });
+});
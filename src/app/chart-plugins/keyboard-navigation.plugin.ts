@@ -0,0 +1,124 @@
+import { ActiveElement, Chart, ChartEvent, Plugin } from 'chart.js';
+import { formatNumber, t } from '../../i18n.service';
+
+// Just the parts of a chart the announcement is built from
+type ChartData = Pick<Chart, 'data'>;
+
+/**
+ * Position arrow, Home and End keys move a focus through a list to
+ * @param current - The focused position, or -1 before any has been
+ * @param count - Number of positions
+ * @param key - KeyboardEvent.key
+ * @returns The new position, or null when the key does not move the focus
+ */
+export function nextPosition(current: number, count: number, key: string): number | null {
+  if (!count) return null;
+  switch (key) {
+    case 'ArrowRight':
+    case 'ArrowDown':
+      return current < 0 ? 0 : (current + 1) % count;
+    case 'ArrowLeft':
+    case 'ArrowUp':
+      return current < 0 ? count - 1 : (current - 1 + count) % count;
+    case 'Home':
+      return 0;
+    case 'End':
+      return count - 1;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Screen reader text for the focused segments, e.g.
+ * "Target Range (70-180), Current: 82% (3 of 10)"
+ * @param chart - The chart the segments belong to
+ * @param elements - The focused segments; several when a line chart focuses one label across its series
+ * @param position - The focus position, from 0
+ * @param count - Number of focus positions
+ */
+export function describeElements(chart: ChartData, elements: { datasetIndex: number; index: number }[], position: number, count: number): string {
+  const format = (value: number) => `${formatNumber(value, Number.isInteger(value) ? 0 : 1)}%`;
+  const category = (index: number) => String(chart.data.labels?.[index] ?? '');
+  const parts = elements.map(({ datasetIndex, index }) => {
+    const dataset = chart.data.datasets[datasetIndex];
+    const value = format(Number(dataset.data[index]));
+    if (elements.length > 1 || !dataset.label) {
+      return `${elements.length > 1 ? dataset.label : category(index)}: ${value}`;
+    }
+    return category(index) ? `${dataset.label}, ${category(index)}: ${value}` : `${dataset.label}: ${value}`;
+  });
+  const heading = elements.length > 1 ? `${category(elements[0].index)}. ` : '';
+  return `${heading}${parts.join(', ')} ${t('({position} of {count})', { position: position + 1, count })}`;
+}
+
+// The segments each focus position covers, in the order the keys move through them
+function focusPositions(chart: Chart): ActiveElement[][] {
+  const visible = chart.data.datasets.map((_, datasetIndex) => datasetIndex).filter(datasetIndex => chart.isDatasetVisible(datasetIndex));
+  const element = (datasetIndex: number, index: number) => ({ datasetIndex, index, element: chart.getDatasetMeta(datasetIndex).data[index] });
+  const labels = chart.data.labels ?? [];
+
+  // Line charts focus one label across every series, like their tooltip
+  if ((chart.options.interaction as any)?.mode === 'index') {
+    return labels.map((_, index) => visible.map(datasetIndex => element(datasetIndex, index)));
+  }
+
+  // Bars and pies focus one segment at a time, skipping empty ones
+  return labels.flatMap((_, index) => visible
+    .filter(datasetIndex => Number(chart.data.datasets[datasetIndex].data[index]) > 0)
+    .map(datasetIndex => [element(datasetIndex, index)]));
+}
+
+/**
+ * Lets keyboard users explore a chart: arrow keys, Home and End move
+ * between segments, showing their tooltip and announcing their value;
+ * Enter or Space acts as a click on the segment and Escape clears it. The
+ * canvas needs a tabindex to be focusable.
+ * @param announce - Passes the text to read out to an aria-live region
+ */
+export function keyboardNavigation(announce: (message: string) => void): Plugin {
+  let listener: ((event: KeyboardEvent) => void) | null = null;
+  let position = -1;
+
+  return {
+    id: 'keyboardNavigation',
+    afterInit: (chart: Chart) => {
+      listener = (event: KeyboardEvent) => {
+        const positions = focusPositions(chart);
+
+        if (event.key === 'Escape') {
+          position = -1;
+          chart.setActiveElements([]);
+          chart.tooltip?.setActiveElements([], { x: 0, y: 0 });
+          chart.update();
+          return;
+        }
+
+        if ((event.key === 'Enter' || event.key === ' ') && positions[position]) {
+          event.preventDefault();
+          const click: ChartEvent = { type: 'click', native: event, x: null, y: null };
+          (chart.options.onClick as any)?.call(chart, click, positions[position], chart);
+          return;
+        }
+
+        const next = nextPosition(Math.min(position, positions.length - 1), positions.length, event.key);
+        if (next === null) return;
+        event.preventDefault();
+        position = next;
+
+        const active = positions[position];
+        const { x, y } = active[0].element;
+        chart.setActiveElements(active);
+        chart.tooltip?.setActiveElements(active, { x, y });
+        chart.update();
+        announce(describeElements(chart, active, position, positions.length));
+      };
+      chart.canvas.addEventListener('keydown', listener);
+    },
+    beforeDestroy: (chart: Chart) => {
+      if (listener) {
+        chart.canvas.removeEventListener('keydown', listener);
+      }
+    }
+  };
+}
@@ -0,0 +1,19 @@
+import { spreadLabels } from './segment-labels.plugin';
+
+describe('spreadLabels', () => {
+  it('should leave labels that do not overlap where they are', () => {
+    expect(spreadLabels([10, 50, 90], [10, 10, 10], 4, 0, 100)).toEqual([10, 50, 90]);
+  });
+
+  it('should push overlapping labels apart', () => {
+    expect(spreadLabels([40, 42, 44], [10, 10, 10], 4, 0, 100)).toEqual([40, 54, 68]);
+  });
+
+  it('should pull labels back inside the far bound', () => {
+    expect(spreadLabels([90, 95, 98], [10, 10, 10], 4, 0, 100)).toEqual([72, 86, 100]);
+  });
+
+  it('should keep labels within the near bound', () => {
+    expect(spreadLabels([-5, 2], [10, 10], 4, 5, 100)).toEqual([5, 19]);
+  });
+});
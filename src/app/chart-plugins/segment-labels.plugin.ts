@@ -0,0 +1,196 @@
+import { Chart, ChartType, Plugin } from 'chart.js';
+
+// Options read from options.plugins.segmentLabels
+export interface SegmentLabelsOptions {
+  formatter?: (value: number) => string;
+  font?: string;
+  fontSize?: number;
+  color?: string;
+  lineColor?: string;
+  offset?: number;   // Distance between the bar or pie edge and its labels
+  spacing?: number;  // Minimum gap between neighbouring labels
+  showZero?: boolean;
+}
+
+declare module 'chart.js' {
+  interface PluginOptionsByType<TType extends ChartType> {
+    segmentLabels?: SegmentLabelsOptions;
+  }
+}
+
+// A label with the point on the segment it belongs to
+interface SegmentLabel {
+  text: string;
+  anchorX: number;
+  anchorY: number;
+  x: number;
+  y: number;
+  moved?: boolean;
+}
+
+const DEFAULTS: Required<Omit<SegmentLabelsOptions, 'formatter'>> = {
+  font: 'bold 13px Arial',
+  fontSize: 13,
+  color: '#333',
+  lineColor: '#666',
+  offset: 20,
+  spacing: 4,
+  showZero: false
+};
+
+/**
+ * Spread label centres along one axis so that no two overlap, keeping each
+ * as close to its desired position as the bounds allow.
+ * @param desired - Desired centres, sorted ascending
+ * @param sizes - Size of each label along the axis
+ * @param spacing - Minimum gap between neighbouring labels
+ * @param min - Lowest allowed centre
+ * @param max - Highest allowed centre
+ */
+export function spreadLabels(desired: number[], sizes: number[], spacing: number, min: number, max: number): number[] {
+  const positions = [...desired];
+  const gap = (i: number) => (sizes[i - 1] + sizes[i]) / 2 + spacing;
+
+  // Push labels forward until they no longer overlap the previous one
+  for (let i = 0; i < positions.length; i++) {
+    positions[i] = Math.max(positions[i], i === 0 ? min : positions[i - 1] + gap(i));
+  }
+
+  // Then pull them back from the far bound if the stack overflowed
+  for (let i = positions.length - 1; i >= 0; i--) {
+    const limit = i === positions.length - 1 ? max : positions[i + 1] - gap(i + 1);
+    positions[i] = Math.max(Math.min(positions[i], limit), min);
+  }
+
+  return positions;
+}
+
+function resolveOptions(options: SegmentLabelsOptions) {
+  return {
+    ...DEFAULTS,
+    ...options,
+    formatter: options.formatter ?? ((value: number) => `${value}%`)
+  };
+}
+
+function drawLabels(chart: Chart, labels: SegmentLabel[], textAlign: CanvasTextAlign, options: ReturnType<typeof resolveOptions>) {
+  const ctx = chart.ctx;
+  ctx.save();
+
+  labels.forEach(label => {
+    // Leader line when the label had to move away from its segment
+    if (label.moved) {
+      const edge = textAlign === 'left' ? label.x - 4 : textAlign === 'right' ? label.x + 4 : label.x;
+      ctx.strokeStyle = options.lineColor;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(label.anchorX, label.anchorY);
+      ctx.lineTo(edge, label.y);
+      ctx.stroke();
+    }
+
+    ctx.fillStyle = options.color;
+    ctx.font = options.font;
+    ctx.textAlign = textAlign;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label.text, label.x, label.y);
+  });
+
+  ctx.restore();
+}
+
+function drawStackedBarLabels(chart: Chart, options: ReturnType<typeof resolveOptions>) {
+  const horizontal = chart.options.indexAxis === 'y';
+  const ctx = chart.ctx;
+  ctx.font = options.font;
+
+  chart.data.labels?.forEach((_, index) => {
+    const labels: SegmentLabel[] = [];
+
+    chart.data.datasets.forEach((dataset, datasetIndex) => {
+      const meta = chart.getDatasetMeta(datasetIndex);
+      const value = Number(dataset.data[index]);
+      if (meta.hidden || !meta.data[index] || (!value && !options.showZero)) return;
+
+      const bar = meta.data[index].getProps(['x', 'y', 'base', 'width', 'height'], true) as any;
+      const center = (horizontal ? bar.x + bar.base : bar.y + bar.base) / 2;
+      labels.push(horizontal
+        ? { text: options.formatter(value), anchorX: center, anchorY: bar.y + bar.height / 2, x: center, y: bar.y + bar.height / 2 + options.offset }
+        : { text: options.formatter(value), anchorX: bar.x + bar.width / 2, anchorY: center, x: bar.x + bar.width / 2 + options.offset, y: center });
+    });
+
+    if (horizontal) {
+      labels.sort((a, b) => a.x - b.x);
+      const sizes = labels.map(label => ctx.measureText(label.text).width);
+      const xs = spreadLabels(labels.map(l => l.x), sizes, options.spacing, sizes[0] / 2, chart.width - sizes[sizes.length - 1] / 2);
+      labels.forEach((label, i) => {
+        label.moved = Math.abs(label.x - xs[i]) > 1;
+        label.x = xs[i];
+      });
+      drawLabels(chart, labels, 'center', options);
+    } else {
+      // Canvas y grows downwards, so lay labels out top to bottom
+      labels.sort((a, b) => a.y - b.y);
+      const sizes = labels.map(() => options.fontSize);
+      const ys = spreadLabels(labels.map(l => l.y), sizes, options.spacing, options.fontSize / 2, chart.height - options.fontSize / 2);
+      labels.forEach((label, i) => {
+        label.moved = Math.abs(label.y - ys[i]) > 1;
+        label.y = ys[i];
+      });
+      drawLabels(chart, labels, 'left', options);
+    }
+  });
+}
+
+function drawPieLabels(chart: Chart, options: ReturnType<typeof resolveOptions>) {
+  const meta = chart.getDatasetMeta(0);
+  const values = chart.data.datasets[0]?.data ?? [];
+  const sides: { left: SegmentLabel[]; right: SegmentLabel[] } = { left: [], right: [] };
+
+  meta.data.forEach((element, index) => {
+    const value = Number(values[index]);
+    if (!value && !options.showZero) return;
+
+    const arc = element.getProps(['x', 'y', 'startAngle', 'endAngle', 'outerRadius'], true) as any;
+    const angle = (arc.startAngle + arc.endAngle) / 2;
+    const right = Math.cos(angle) >= 0;
+    const radius = arc.outerRadius + options.offset;
+
+    (right ? sides.right : sides.left).push({
+      text: options.formatter(value),
+      anchorX: arc.x + Math.cos(angle) * arc.outerRadius,
+      anchorY: arc.y + Math.sin(angle) * arc.outerRadius,
+      x: arc.x + (right ? radius : -radius),
+      y: arc.y + Math.sin(angle) * radius,
+      moved: true // Pie labels always sit outside the pie on a leader line
+    });
+  });
+
+  (['left', 'right'] as const).forEach(side => {
+    const labels = sides[side].sort((a, b) => a.y - b.y);
+    const sizes = labels.map(() => options.fontSize);
+    const ys = spreadLabels(labels.map(l => l.y), sizes, options.spacing, options.fontSize / 2, chart.height - options.fontSize / 2);
+    labels.forEach((label, i) => label.y = ys[i]);
+    drawLabels(chart, labels, side === 'right' ? 'left' : 'right', options);
+  });
+}
+
+/**
+ * Draws a percentage label beside every segment of a stacked bar or pie
+ * chart, derived from the dataset values. Overlapping labels are spread
+ * apart and joined to their segment with a leader line; 0% segments are
+ * skipped unless showZero is set.
+ */
+export const segmentLabelsPlugin: Plugin = {
+  id: 'segmentLabels',
+  afterDraw: (chart: Chart, _args: unknown, pluginOptions: SegmentLabelsOptions) => {
+    const options = resolveOptions(pluginOptions ?? {});
+    const type = (chart.config as any).type;
+
+    if (type === 'pie' || type === 'doughnut') {
+      drawPieLabels(chart, options);
+    } else {
+      drawStackedBarLabels(chart, options);
+    }
+  }
+};
@@ -0,0 +1,49 @@
+import { Chart, ChartType, Plugin } from 'chart.js';
+import { SENSOR_LIMITS } from '../../cgm-import.service';
+import { GlucoseUnit, toGlucoseUnit } from '../../glucose-unit.service';
+
+// Options read from options.plugins.targetRange, in the y axis unit
+export interface TargetRangeOptions {
+  low?: number;
+  high?: number;
+  color?: string;
+}
+
+declare module 'chart.js' {
+  interface PluginOptionsByType<TType extends ChartType> {
+    targetRange?: TargetRangeOptions;
+  }
+}
+
+/**
+ * The sensor's reporting range in a display unit, for the y axis of charts
+ * of glucose readings; it extends for devices that read higher, e.g.
+ * FreeStyle Libre up to 500 mg/dL
+ * @param unit - The unit to show glucose in
+ */
+export function glucoseAxis(unit: GlucoseUnit) {
+  return {
+    min: toGlucoseUnit(SENSOR_LIMITS.low, unit),
+    suggestedMax: toGlucoseUnit(SENSOR_LIMITS.high, unit),
+    title: { display: true, text: unit }
+  };
+}
+
+/**
+ * Shades the target range behind the lines of a glucose chart; nothing is
+ * drawn until low and high are set
+ */
+export const targetRangePlugin: Plugin = {
+  id: 'targetRange',
+  beforeDatasetsDraw: (chart: Chart, _args: unknown, options: TargetRangeOptions) => {
+    const { ctx, chartArea, scales } = chart;
+    if (options?.low === undefined || options?.high === undefined || !scales['y']) return;
+    const top = scales['y'].getPixelForValue(options.high);
+    const bottom = scales['y'].getPixelForValue(options.low);
+
+    ctx.save();
+    ctx.fillStyle = options.color ?? 'rgba(139, 195, 74, 0.12)';
+    ctx.fillRect(chartArea.left, top, chartArea.right - chartArea.left, bottom - top);
+    ctx.restore();
+  }
+};
@@ -0,0 +1,35 @@
+import { TrendSeries } from '../clinic-reports.service';
+import { STANDARD_GLUCOSE_SETTINGS } from '../glucose-settings.service';
+import { summarizeTable, timeInRangeTable, trendTable } from './chart-tables';
+import { timeInRangeTiers } from './time-in-range-tiers';
+
+const tiers = timeInRangeTiers(STANDARD_GLUCOSE_SETTINGS.ranges, STANDARD_GLUCOSE_SETTINGS.colors);
+const current = { inRange: 82, aboveRange: 16, belowRange: 2, veryLow: 1, low: 1, high: 15, veryHigh: 1 };
+const previous = { inRange: 78.5, aboveRange: 19, belowRange: 2.5, veryLow: 0.5, low: 2, high: 17, veryHigh: 2 };
+
+describe('chart tables', () => {
+  it('should list each tier with a column per period', () => {
+    const table = timeInRangeTable([{ label: 'Current', timeInRange: current }, { label: 'Previous period', timeInRange: previous }], tiers);
+    expect(table.columns).toEqual(['Glucose range', 'Current', 'Previous period']);
+    expect(table.rows[0]).toEqual(['Very Low (<54)', '1%', '0.5%']);
+    expect(table.rows[2]).toEqual(['Target Range (70-180)', '82%', '78.5%']);
+  });
+
+  it('should list one row per trend period', () => {
+    const series: TrendSeries = {
+      interval: 'monthly',
+      points: [{ periodStart: '2024-01-01', periodEnd: '2024-01-31', patientCount: 120, inRange: 80, belowRange: 2, gmiAverage: 6.8 }]
+    };
+    expect(trendTable(series, periodStart => periodStart.slice(0, 7)).rows).toEqual([['2024-01', '80%', '2%', '6.8%']]);
+  });
+
+  it('should summarize a single column table one sentence per row', () => {
+    const table = timeInRangeTable([{ label: 'Current', timeInRange: current }], tiers.slice(0, 2));
+    expect(summarizeTable(table)).toBe('Time in range. Very Low (<54): 1%. Low (54-69): 1%.');
+  });
+
+  it('should name the column of each value when there are several', () => {
+    const table = timeInRangeTable([{ label: 'Current', timeInRange: current }, { label: 'Previous period', timeInRange: previous }], tiers.slice(0, 1));
+    expect(summarizeTable(table)).toBe('Time in range. Very Low (<54): Current 1%, Previous period 0.5%.');
+  });
+});
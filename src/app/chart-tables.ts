@@ -0,0 +1,139 @@
+import { ClinicData, SensorWearDistribution, TimeInRange, TrendSeries } from '../clinic-reports.service';
+import { AgpReport } from '../clinic-metrics.service';
+import { GmiBucket } from '../glucose-settings.service';
+import { GlucoseUnit, formatGlucose } from '../glucose-unit.service';
+import { formatDate, formatNumber, t } from '../i18n.service';
+import { TimeInRangeTier } from './time-in-range-tiers';
+
+// A chart's figures as a table, for screen readers and keyboard users
+export interface ChartTable {
+  caption: string;
+  columns: string[]; // The first heads the row labels
+  rows: string[][];  // Row label, then one cell per remaining column
+}
+
+// Time in range of one bar of a chart, with the name of its bar or column
+export interface ChartPeriod {
+  label: string;
+  timeInRange: TimeInRange;
+}
+
+const percent = (value: number) => `${formatNumber(value, Number.isInteger(value) ? 0 : 1)}%`;
+
+/**
+ * Format minutes since midnight as HH:mm
+ */
+export function formatMinuteOfDay(minute: number): string {
+  return `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Time spent in each glucose tier, one column per bar
+ * @param periods - The current period, then the comparison period if any; or one patient
+ * @param tiers - The tiers, bottom to top
+ */
+export function timeInRangeTable(periods: ChartPeriod[], tiers: TimeInRangeTier[]): ChartTable {
+  return {
+    caption: t('Time in range'),
+    columns: [t('Glucose range'), ...periods.map(period => period.label)],
+    rows: tiers.map(tier => [tier.label, ...periods.map(period => percent(period.timeInRange[tier.key]))])
+  };
+}
+
+/**
+ * Share of patients in each GMI bucket
+ * @param caption - Names the period the distribution is for
+ * @param distribution - The report's GMI distribution
+ * @param buckets - The buckets in pie order
+ */
+export function gmiTable(caption: string, distribution: ClinicData['gmi']['distribution'], buckets: { label: string; key: GmiBucket }[]): ChartTable {
+  return {
+    caption,
+    columns: ['GMI', t('Patients')],
+    rows: buckets.map(bucket => [bucket.label, percent(distribution[bucket.key])])
+  };
+}
+
+/**
+ * Patients in each sensor wear band, as a count and a share of the patients measured
+ * @param distribution - The report's sensor wear distribution
+ * @param bands - The bands with their labels, lowest first
+ */
+export function sensorWearTable(distribution: SensorWearDistribution, bands: { label: string; key: keyof SensorWearDistribution }[]): ChartTable {
+  const total = bands.reduce((sum, band) => sum + distribution[band.key], 0);
+  return {
+    caption: t('Sensor wear'),
+    columns: [t('Sensor wear'), t('Patients'), t('Share of patients')],
+    rows: bands.map(band => [
+      band.label,
+      formatNumber(distribution[band.key]),
+      percent(total ? Math.round((distribution[band.key] / total) * 100) : 0)
+    ])
+  };
+}
+
+/**
+ * Clinic trends, one row per week or month
+ * @param series - The trend series
+ * @param formatLabel - Formats a period start as on the chart's axis
+ */
+export function trendTable(series: TrendSeries, formatLabel: (periodStart: string) => string): ChartTable {
+  return {
+    caption: t('Trends over the last year'),
+    columns: [t('Period'), t('In Range (%)'), t('Below Range (%)'), t('Average GMI (%)')],
+    rows: series.points.map(point => [
+      formatLabel(point.periodStart),
+      percent(point.inRange),
+      percent(point.belowRange),
+      `${formatNumber(point.gmiAverage, 1)}%`
+    ])
+  };
+}
+
+/**
+ * A patient's glucose percentiles, one row per hour of the day
+ * @param report - The AGP report
+ * @param unit - The unit to show glucose in
+ */
+export function agpTable(report: AgpReport, unit: GlucoseUnit): ChartTable {
+  const format = (mgdl: number | null) => mgdl === null ? '–' : formatGlucose(mgdl, unit);
+  return {
+    caption: t('Ambulatory Glucose Profile'),
+    columns: [t('Time'), ...[5, 25, 50, 75, 95].map(p => p === 50 ? t('Median') : t('{p}th percentile', { p }))],
+    rows: report.profile
+      .filter(bin => bin.minuteOfDay % 60 === 0)
+      .map(bin => [
+        formatMinuteOfDay(bin.minuteOfDay),
+        format(bin.p5), format(bin.p25), format(bin.p50), format(bin.p75), format(bin.p95)
+      ])
+  };
+}
+
+/**
+ * Lowest, average and highest reading of each day
+ * @param report - The AGP report
+ * @param unit - The unit to show glucose in
+ */
+export function dailyTable(report: AgpReport, unit: GlucoseUnit): ChartTable {
+  return {
+    caption: t('Daily glucose profiles'),
+    columns: [t('Date'), t('Lowest'), t('Average'), t('Highest')],
+    rows: report.dailyTraces.map(trace => {
+      const values = trace.points.map(point => point.mgdl);
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      return [formatDate(trace.date), ...[Math.min(...values), mean, Math.max(...values)].map(mgdl => formatGlucose(mgdl, unit))];
+    })
+  };
+}
+
+/**
+ * Read-out of a table in one sentence per row, for a chart's aria-describedby,
+ * e.g. "Time in range. Very Low (<54): Current 1%, Previous period 2%."
+ * @param table - The chart's table
+ */
+export function summarizeTable(table: ChartTable): string {
+  const [, ...headers] = table.columns;
+  const rows = table.rows.map(([label, ...cells]) =>
+    `${label}: ${cells.map((cell, i) => headers.length > 1 ? `${headers[i]} ${cell}` : cell).join(', ')}.`);
+  return [`${table.caption}.`, ...rows].join(' ');
+}
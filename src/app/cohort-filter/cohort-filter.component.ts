@@ -0,0 +1,30 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { COHORT_DIMENSIONS, CohortFilter, PatientAttributes, isCohortFiltered } from '../../clinic-reports.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+@Component({
+  selector: 'app-cohort-filter',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './cohort-filter.component.html',
+  styleUrl: './cohort-filter.component.css'
+})
+export class CohortFilterComponent {
+  @Input() cohort: CohortFilter = {};
+  @Output() cohortChange = new EventEmitter<CohortFilter>();
+
+  dimensions = COHORT_DIMENSIONS;
+
+  get filtered(): boolean {
+    return isCohortFiltered(this.cohort);
+  }
+
+  onValueChange(key: keyof PatientAttributes, value: string) {
+    const { [key]: _, ...others } = this.cohort;
+    this.cohortChange.emit(value ? { ...others, [key]: value } : others);
+  }
+
+  clear() {
+    this.cohortChange.emit({});
+  }
+}
@@ -0,0 +1,25 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ClinicData } from '../../clinic-reports.service';
+import { ClinicMetricsService, ConsensusTargetResult } from '../../clinic-metrics.service';
+import { GlucoseUnit } from '../../glucose-unit.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+@Component({
+  selector: 'app-consensus-targets',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './consensus-targets.component.html',
+  styleUrl: './consensus-targets.component.css'
+})
+export class ConsensusTargetsComponent implements OnChanges {
+  @Input() data!: ClinicData;
+  @Input() unit: GlucoseUnit = 'mg/dL';
+
+  results: ConsensusTargetResult[] = [];
+
+  constructor(private metrics: ClinicMetricsService) {}
+
+  ngOnChanges() {
+    this.results = this.metrics.evaluateConsensusTargets(this.data, this.unit);
+  }
+}
@@ -0,0 +1,74 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartConfiguration } from 'chart.js';
+import { AgpReport } from '../../clinic-metrics.service';
+import { GlucoseRanges, STANDARD_GLUCOSE_SETTINGS } from '../../glucose-settings.service';
+import { GlucoseUnit, toGlucoseUnit } from '../../glucose-unit.service';
+import { t } from '../../i18n.service';
+import { ChartComponent } from '../chart-component';
+import { ChartTable, dailyTable, formatMinuteOfDay } from '../chart-tables';
+import { glucoseAxis, targetRangePlugin } from '../chart-plugins/target-range.plugin';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+
+/**
+ * A patient's sensor readings, one line per day, over the target range
+ */
+@Component({
+  selector: 'app-daily-overlay-chart',
+  imports: [CommonModule, ChartDataTableComponent],
+  templateUrl: './daily-overlay-chart.component.html',
+  styleUrl: './daily-overlay-chart.component.css'
+})
+export class DailyOverlayChartComponent extends ChartComponent {
+  @Input() report: AgpReport | null = null;
+  // The clinic's ranges, for the shaded target range
+  @Input() ranges: GlucoseRanges = STANDARD_GLUCOSE_SETTINGS.ranges;
+  @Input() unit: GlucoseUnit = 'mg/dL';
+
+  get title(): string {
+    return t('Daily glucose profiles');
+  }
+
+  protected override buildTable(): ChartTable | null {
+    return this.report ? dailyTable(this.report, this.unit) : null;
+  }
+
+  protected config(): ChartConfiguration {
+    return {
+      type: 'line',
+      data: {
+        datasets: (this.report?.dailyTraces ?? []).map(trace => ({
+          label: trace.date,
+          data: trace.points.map(point => ({ x: point.minuteOfDay, y: toGlucoseUnit(point.mgdl, this.unit) })),
+          borderColor: 'rgba(108, 117, 125, 0.35)',
+          borderWidth: 1,
+          pointRadius: 0,
+          fill: false
+        }))
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: false },
+          tooltip: { enabled: false },
+          targetRange: { low: toGlucoseUnit(this.ranges.low, this.unit), high: toGlucoseUnit(this.ranges.high, this.unit) }
+        },
+        scales: {
+          x: {
+            type: 'linear',
+            min: 0,
+            max: 1440,
+            grid: { display: false },
+            ticks: {
+              stepSize: 180,
+              callback: (value: string | number) => formatMinuteOfDay(Number(value))
+            }
+          },
+          y: glucoseAxis(this.unit)
+        }
+      },
+      plugins: [targetRangePlugin]
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { convertToParamMap } from '@angular/router';
+import { COMPARISON_OPTIONS } from '../period-comparison/period-comparison.component';
+import { DashboardSelection } from './dashboard.store';
+import { selectionFromParams, selectionToParams } from './dashboard-url';
+
+describe('dashboard links', () => {
+  const today = new Date('2024-03-31T00:00:00Z');
+
+  it('should open the default selection without params', () => {
+    const selection = selectionFromParams(convertToParamMap({}), today);
+
+    expect(selection.range).toEqual({ from: new Date('2024-03-02T00:00:00Z'), to: today });
+    expect(selection.scope).toEqual({ clinicId: null, providerId: null });
+    expect(selection.cohort).toEqual({});
+    expect(selection.compareMode).toBeFalse();
+    expect(selection.drilldown).toBeNull();
+    expect(selectionToParams(selection, today)).toEqual({ period: '30d' });
+  });
+
+  it('should restore the 90 day view of a clinic for type 1 patients', () => {
+    const params = { period: '90d', clinic: 'c2', provider: 'd4', diabetesType: 'type1', compare: 'previous', drilldown: 'low', drilldownPeriod: 'comparison' };
+    const selection = selectionFromParams(convertToParamMap(params), today);
+
+    expect(selection.range.from).toEqual(new Date('2024-01-02T00:00:00Z'));
+    expect(selection.scope).toEqual({ clinicId: 'c2', providerId: 'd4' });
+    expect(selection.cohort).toEqual({ diabetesType: 'type1' });
+    expect(selection.comparisonOption).toBe(COMPARISON_OPTIONS[0]);
+    expect(selection.drilldown).toEqual({ bucket: 'low', period: 'comparison' });
+    expect(selectionToParams(selection, today)).toEqual(params);
+  });
+
+  it('should keep a custom window as its dates', () => {
+    const selection: DashboardSelection = {
+      ...selectionFromParams(convertToParamMap({}), today),
+      range: { from: new Date('2024-01-05T00:00:00Z'), to: new Date('2024-02-10T00:00:00Z') }
+    };
+
+    expect(selectionToParams(selection, today)).toEqual({ from: '2024-01-05', to: '2024-02-10' });
+    expect(selectionFromParams(convertToParamMap({ from: '2024-01-05', to: '2024-02-10' }), today).range).toEqual(selection.range);
+  });
+
+  it('should ignore params it does not understand', () => {
+    const params = { from: '2024-02-10', to: '2024-01-05', provider: 'd4', therapy: 'inhaled', compare: 'lastYear', drilldown: 'everyone' };
+    const selection = selectionFromParams(convertToParamMap(params), today);
+
+    expect(selectionToParams(selection, today)).toEqual({ period: '30d' });
+  });
+});
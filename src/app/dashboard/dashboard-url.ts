@@ -0,0 +1,84 @@
+import { ParamMap, Params } from '@angular/router';
+import { COHORT_DIMENSIONS, CohortFilter, PatientBucket } from '../../clinic-reports.service';
+import { ReportingWindow } from '../../clinic-metrics.service';
+import { toIsoDate, utcToday } from '../../data-sources/clinic-data-source';
+import { DATE_RANGE_PRESETS, DEFAULT_DATE_RANGE_PRESET, matchingPreset } from '../date-range-picker/date-range-picker.component';
+import { COMPARISON_OPTIONS } from '../period-comparison/period-comparison.component';
+import { DashboardDrilldown, DashboardSelection } from './dashboard.store';
+
+// Segments a drill-down can be opened on
+const DRILLDOWN_BUCKETS: PatientBucket[] = [
+  'veryLow', 'low', 'inRange', 'high', 'veryHigh', 'belowRange', 'aboveRange', 'optimal', 'suboptimal', 'poor'
+];
+
+// A yyyy-mm-dd query param as a UTC date, or null when it is not one
+function parseIsoDate(value: string | null): Date | null {
+  const date = new Date(value ?? '');
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * Query params that reopen the dashboard on a selection, e.g.
+ * ?period=90d&clinic=c2&diabetesType=type1&compare=previous&drilldown=low
+ * A preset window is kept as its preset, so the link moves with the
+ * calendar; any other window is kept as from and to dates.
+ * @param selection - The dashboard selection
+ * @param today - The day presets end on
+ */
+export function selectionToParams(selection: DashboardSelection, today: Date = utcToday()): Params {
+  const { range, scope, cohort, drilldown } = selection;
+  const preset = matchingPreset(range, today);
+  return {
+    ...(preset ? { period: preset.id } : { from: toIsoDate(range.from), to: toIsoDate(range.to) }),
+    ...(scope.clinicId !== null && { clinic: scope.clinicId }),
+    ...(scope.providerId !== null && { provider: scope.providerId }),
+    ...Object.fromEntries(Object.entries(cohort).filter(([, value]) => value)),
+    ...(selection.compareMode && { compare: selection.comparisonOption.id }),
+    ...(drilldown && { drilldown: drilldown.bucket }),
+    ...(drilldown?.period === 'comparison' && { drilldownPeriod: 'comparison' })
+  };
+}
+
+/**
+ * The selection a dashboard link opens on. Params that are missing or not
+ * understood fall back to the defaults: the 30 day preset, all clinics,
+ * every patient and no comparison or drill-down.
+ * @param params - The dashboard's query params
+ * @param today - The day presets end on
+ */
+export function selectionFromParams(params: ParamMap, today: Date = utcToday()): DashboardSelection {
+  const preset = DATE_RANGE_PRESETS.find(candidate => candidate.id === params.get('period'));
+  const from = parseIsoDate(params.get('from'));
+  const to = parseIsoDate(params.get('to'));
+  const range: ReportingWindow = preset
+    ? preset.resolve(today)
+    : from && to && from <= to ? { from, to } : DEFAULT_DATE_RANGE_PRESET.resolve(today);
+
+  // A provider is only chosen within a clinic
+  const clinicId = params.get('clinic');
+  const providerId = clinicId ? params.get('provider') : null;
+
+  const cohort: CohortFilter = {};
+  for (const dimension of COHORT_DIMENSIONS) {
+    const value = params.get(dimension.key);
+    if (dimension.options.some(option => option.value === value)) {
+      Object.assign(cohort, { [dimension.key]: value });
+    }
+  }
+
+  const comparisonOption = COMPARISON_OPTIONS.find(option => option.id === params.get('compare'));
+
+  const bucket = DRILLDOWN_BUCKETS.find(candidate => candidate === params.get('drilldown'));
+  const drilldown: DashboardDrilldown | null = bucket
+    ? { bucket, period: comparisonOption && params.get('drilldownPeriod') === 'comparison' ? 'comparison' : 'current' }
+    : null;
+
+  return {
+    range,
+    scope: { clinicId, providerId },
+    cohort,
+    compareMode: !!comparisonOption,
+    comparisonOption: comparisonOption ?? COMPARISON_OPTIONS[0],
+    drilldown
+  };
+}
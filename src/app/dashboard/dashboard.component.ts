@@ -0,0 +1,262 @@
+import { Component, DestroyRef, OnInit, QueryList, ViewChildren } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Clinic, ClinicReportsService, CohortFilter, PatientBucket, PatientSummary, ReportScope, TimeInRange, TrendInterval, describeScope } from '../../clinic-reports.service';
+import { MIN_DAYS_OF_DATA, ReportingWindow } from '../../clinic-metrics.service';
+import { GlucoseSettings, GlucoseSettingsService, GmiBucket, GmiThresholds, ReportThresholds, gmiLabel, sameThresholds, thresholdsOf, tierLabel } from '../../glucose-settings.service';
+import { GlucoseUnit, GlucoseUnitService } from '../../glucose-unit.service';
+import { ColorPalette, ColorPaletteService, paletteColors } from '../../color-palette.service';
+import { t } from '../../i18n.service';
+import { ReportPdfService } from '../../report-pdf.service';
+import { ReportExportService } from '../../report-export.service';
+import { TimeInRangeTier, gmiBuckets } from '../time-in-range-tiers';
+import { ChartComponent } from '../chart-component';
+import { DateRangePickerComponent } from '../date-range-picker/date-range-picker.component';
+import { ConsensusTargetsComponent } from '../consensus-targets/consensus-targets.component';
+import { PatientDrilldownComponent } from '../patient-drilldown/patient-drilldown.component';
+import { PatientWorklistComponent } from '../patient-worklist/patient-worklist.component';
+import { CgmImportComponent } from '../cgm-import/cgm-import.component';
+import { ReportStatusComponent } from '../report-status/report-status.component';
+import { ScopeSelectorComponent } from '../scope-selector/scope-selector.component';
+import { CohortFilterComponent } from '../cohort-filter/cohort-filter.component';
+import { UnitSelectorComponent } from '../unit-selector/unit-selector.component';
+import { LocaleSelectorComponent } from '../locale-selector/locale-selector.component';
+import { PaletteSelectorComponent } from '../palette-selector/palette-selector.component';
+import { DataFreshnessComponent } from '../data-freshness/data-freshness.component';
+import { DataQualityComponent } from '../data-quality/data-quality.component';
+import { TimeInRangeBarComponent } from '../time-in-range-bar/time-in-range-bar.component';
+import { GlucoseScaleComponent } from '../glucose-scale/glucose-scale.component';
+import { GmiPieComponent } from '../gmi-pie/gmi-pie.component';
+import { SensorWearChartComponent } from '../sensor-wear-chart/sensor-wear-chart.component';
+import { TrendChartComponent } from '../trend-chart/trend-chart.component';
+import { DateRangePipe } from '../i18n/date-range.pipe';
+import { TranslatePipe } from '../i18n/translate.pipe';
+import { ComparisonOption, PeriodComparisonComponent, COMPARISON_OPTIONS, comparesWithItself } from '../period-comparison/period-comparison.component';
+import { DashboardSelection, DashboardStore } from './dashboard.store';
+import { selectionFromParams, selectionToParams } from './dashboard-url';
+
+@Component({
+  selector: 'app-dashboard',
+  imports: [CommonModule, RouterLink, DateRangePickerComponent, PeriodComparisonComponent, ConsensusTargetsComponent, PatientDrilldownComponent, PatientWorklistComponent, CgmImportComponent, ReportStatusComponent, ScopeSelectorComponent, CohortFilterComponent, UnitSelectorComponent, LocaleSelectorComponent, PaletteSelectorComponent, DataFreshnessComponent, DataQualityComponent, TimeInRangeBarComponent, GlucoseScaleComponent, GmiPieComponent, SensorWearChartComponent, TrendChartComponent, DateRangePipe, TranslatePipe],
+  templateUrl: './dashboard.component.html',
+  styleUrl: './dashboard.component.css'
+})
+export class DashboardComponent implements OnInit {
+  // Clinics the report can be limited to
+  clinics: Clinic[] = [];
+
+  // Ranges, GMI cut points and colours of the selected clinic
+  settings: GlucoseSettings;
+
+  // Unit glucose values are shown in; metrics are always computed in mg/dL
+  unit: GlucoseUnit;
+
+  // Clinic colours, or colour-blind safe ones with patterns
+  palette: ColorPalette;
+
+  readonly minDaysOfData = MIN_DAYS_OF_DATA;
+
+  // Periods the report can be compared with
+  comparisonOptions = COMPARISON_OPTIONS;
+
+  // Longitudinal trend intervals
+  trendIntervals: TrendInterval[] = ['weekly', 'monthly'];
+
+  showTooltip = false;
+  exportingPdf = false;
+
+  // Charts in the order they are exported
+  @ViewChildren('exportable') private charts?: QueryList<ChartComponent>;
+
+  constructor(
+    readonly store: DashboardStore,
+    private clinicReportsService: ClinicReportsService,
+    private reportPdfService: ReportPdfService,
+    private reportExportService: ReportExportService,
+    private glucoseSettings: GlucoseSettingsService,
+    private glucoseUnit: GlucoseUnitService,
+    private colorPalette: ColorPaletteService,
+    private route: ActivatedRoute,
+    private router: Router,
+    private destroyRef: DestroyRef
+  ) {
+    this.settings = this.glucoseSettings.getSettings(store.selection().scope.clinicId);
+    this.unit = this.glucoseUnit.unit;
+    this.palette = this.colorPalette.palette;
+  }
+
+  // The ranges and cut points the report's figures were computed with
+  get reportThresholds(): ReportThresholds {
+    return thresholdsOf(this.store.clinicData());
+  }
+
+  // Pre-aggregated reports cannot be recomputed with a clinic's own ranges
+  get usesOtherThresholds(): boolean {
+    return !sameThresholds(this.reportThresholds, this.settings);
+  }
+
+  // The colours charts are drawn in
+  get colors(): GlucoseSettings['colors'] {
+    return paletteColors(this.palette, this.settings);
+  }
+
+  get gmiBuckets() {
+    return gmiBuckets(this.reportThresholds.gmi, this.colors);
+  }
+
+  // GMI cut points the comparison report was computed with
+  get comparisonGmi(): GmiThresholds {
+    return thresholdsOf(this.store.comparisonData() ?? this.store.clinicData()).gmi;
+  }
+
+  // Name of the chart segment whose patients are listed, e.g. "GMI ≥8%"
+  get drilldownTitle(): string {
+    const drilldown = this.store.selection().drilldown;
+    if (!drilldown) {
+      return '';
+    }
+    if (drilldown.bucket in this.store.clinicData().gmi.distribution) {
+      const gmi = drilldown.period === 'comparison' ? this.comparisonGmi : this.reportThresholds.gmi;
+      return `GMI ${gmiLabel(drilldown.bucket as GmiBucket, gmi)}`;
+    }
+    return tierLabel(drilldown.bucket as keyof TimeInRange, this.reportThresholds.ranges, this.unit);
+  }
+
+  ngOnInit() {
+    // The URL holds the selection, so links and browser history restore it;
+    // the store keeps the report while navigating away and back
+    this.route.queryParamMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(params => {
+      const selection = selectionFromParams(params, this.store.latestDate);
+      this.settings = this.glucoseSettings.getSettings(selection.scope.clinicId);
+      this.store.select(selection);
+    });
+    this.store.reloadTrends();
+    this.clinicReportsService.getClinics().subscribe(clinics => this.clinics = clinics);
+  }
+
+  onRangeChange(range: ReportingWindow) {
+    this.navigate({ range });
+  }
+
+  onScopeChange(scope: ReportScope) {
+    this.navigate({ scope, drilldown: null });
+  }
+
+  onUnitChange(unit: GlucoseUnit) {
+    this.unit = unit;
+    this.glucoseUnit.setUnit(unit);
+  }
+
+  onPaletteChange(palette: ColorPalette) {
+    this.palette = palette;
+    this.colorPalette.setPalette(palette);
+  }
+
+  onCohortChange(cohort: CohortFilter) {
+    this.navigate({ cohort, drilldown: null });
+  }
+
+  onCompareModeChange(enabled: boolean) {
+    this.navigate({ compareMode: enabled, drilldown: null });
+  }
+
+  // Options that would compare the current window with itself cannot be chosen
+  comparesWithCurrent(option: ComparisonOption): boolean {
+    return comparesWithItself(option, this.store.selection().range);
+  }
+
+  onComparisonOptionChange(index: number) {
+    this.navigate({ comparisonOption: this.comparisonOptions[index], drilldown: null });
+  }
+
+  onTrendIntervalChange(interval: TrendInterval) {
+    this.store.selectTrendInterval(interval);
+  }
+
+  // Imported device readings change every figure, so recompute the report and drill-down
+  onDataImported() {
+    this.store.reload();
+  }
+
+  retryLoad() {
+    this.store.reload();
+  }
+
+  /**
+   * Open the patient list behind a chart segment
+   * @param period - Whether the segment is of the current or the comparison period
+   * @param bucket - The TIR tier or GMI bucket
+   */
+  openDrilldown(period: 'current' | 'comparison', bucket: PatientBucket) {
+    this.navigate({ drilldown: { bucket, period } });
+  }
+
+  /**
+   * Open the patients behind a time in range segment
+   * @param segment - The bar (0 is the current period) and tier clicked
+   */
+  onTimeInRangeClick(segment: { periodIndex: number; tier: TimeInRangeTier }) {
+    this.openDrilldown(segment.periodIndex === 0 ? 'current' : 'comparison', segment.tier.key);
+  }
+
+  closeDrilldown() {
+    this.navigate({ drilldown: null });
+  }
+
+  /**
+   * Change the selection through the URL, which adds a browser history
+   * entry and then updates the store
+   * @param changes - The parts of the selection that changed
+   */
+  private navigate(changes: Partial<DashboardSelection>) {
+    this.router.navigate([], { queryParams: selectionToParams({ ...this.store.selection(), ...changes }, this.store.latestDate) });
+  }
+
+  /**
+   * Export the current report as a multi-page PDF with tables and chart images
+   */
+  async onExportPdf() {
+    this.exportingPdf = true;
+    try {
+      const charts = (this.charts?.toArray() ?? [])
+        .filter(component => component.chart)
+        .map(component => this.reportPdfService.captureChart(component.chart!, component.title));
+      const data = this.store.clinicData();
+      const blob = await this.reportPdfService.buildReport({ data, scope: describeScope(data, this.clinics), charts });
+      this.reportPdfService.downloadReport(blob);
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      alert(t('The PDF report could not be generated'));
+    } finally {
+      this.exportingPdf = false;
+    }
+  }
+
+  /**
+   * Export the reported metrics, plus one row per patient when available
+   * @param format - CSV files or an Excel workbook
+   */
+  onExportData(format: 'csv' | 'xlsx') {
+    const { range, scope, cohort } = this.store.selection();
+    const data = this.store.clinicData();
+    const names = describeScope(data, this.clinics);
+    this.clinicReportsService.getPatients(range, scope, cohort).subscribe({
+      next: async (patients: PatientSummary[]) => {
+        try {
+          if (format === 'csv') {
+            this.reportExportService.exportCsv(data, names, patients);
+          } else {
+            await this.reportExportService.exportWorkbook(data, names, patients);
+          }
+        } catch (error) {
+          console.error(`${format} export failed:`, error);
+          alert(t('The data export could not be generated'));
+        }
+      },
+      error: (error) => {
+        console.error('Error loading patients for export:', error);
+      }
+    });
+  }
+}
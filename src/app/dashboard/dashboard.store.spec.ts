@@ -0,0 +1,173 @@
+import { Observable, Subject, of, throwError } from 'rxjs';
+import { ClinicData, ClinicReportsService, PatientSummary } from '../../clinic-reports.service';
+import { ClinicDataError } from '../../clinic-data-validator';
+import { COMPARISON_OPTIONS } from '../period-comparison/period-comparison.component';
+import { DashboardStore } from './dashboard.store';
+
+function report(patientCount: number, inRange: number): ClinicData {
+  return {
+    patientCount,
+    reportingDays: 30,
+    dateRange: '2024-01-01/2024-01-30',
+    lastUpdated: '2024-01-31T15:00:00Z',
+    timeInRange: { inRange, aboveRange: 100 - inRange, belowRange: 0, veryLow: 0, low: 0, high: 100 - inRange, veryHigh: 0 },
+    gmi: { average: 7, distribution: { optimal: 50, suboptimal: 50, poor: 0 } }
+  };
+}
+
+// Answers each request when the test says so, in any order
+class FakeReportsService {
+  responses: Subject<ClinicData>[] = [];
+
+  getClinicData(): Observable<ClinicData> {
+    const response = new Subject<ClinicData>();
+    this.responses.push(response);
+    return response;
+  }
+
+  getPatients(): Observable<PatientSummary[]> {
+    return of([]);
+  }
+
+  getPatientsInBucket(..._request: Parameters<ClinicReportsService['getPatientsInBucket']>): Observable<PatientSummary[]> {
+    return of([]);
+  }
+
+  latestDate() {
+    return new Date('2024-03-31T00:00:00Z');
+  }
+
+  getTrendData() {
+    return of({ interval: 'weekly' as const, points: [] });
+  }
+
+  respond(index: number, data: ClinicData) {
+    this.responses[index].next(data);
+    this.responses[index].complete();
+  }
+}
+
+describe('DashboardStore', () => {
+  const window = { from: new Date('2024-01-01T00:00:00Z'), to: new Date('2024-01-30T00:00:00Z') };
+  let reports: FakeReportsService;
+  let store: DashboardStore;
+
+  beforeEach(() => {
+    reports = new FakeReportsService();
+    store = new DashboardStore(reports as unknown as ClinicReportsService);
+  });
+
+  it('should open on the last 30 days of the data source', () => {
+    expect(store.selection().range).toEqual({ from: new Date('2024-03-02T00:00:00Z'), to: store.latestDate });
+  });
+
+  it('should show the report once it has loaded', () => {
+    store.select({ range: window });
+    expect(store.status()).toBe('loading');
+
+    reports.respond(0, report(40, 75));
+
+    expect(store.status()).toBe('ready');
+    expect(store.clinicData().timeInRange.inRange).toBe(75);
+    expect(store.selection().range).toBe(window);
+  });
+
+  it('should ignore the response to a selection that has since changed', () => {
+    store.select({ range: window });
+    store.select({ cohort: { diabetesType: 'type1' } });
+
+    reports.respond(1, report(40, 60));
+    reports.respond(0, report(40, 90));
+
+    expect(store.clinicData().timeInRange.inRange).toBe(60);
+  });
+
+  it('should load the comparison period and show both as time in range bars', () => {
+    store.select({ range: window, compareMode: true });
+    reports.respond(0, report(40, 75));
+    reports.respond(1, report(40, 65));
+
+    expect(store.comparisonData()?.timeInRange.inRange).toBe(65);
+    expect(store.timeInRangePeriods().map(period => period.timeInRange.inRange)).toEqual([75, 65]);
+  });
+
+  it('should show no comparison rather than zeros when the comparison period has no data', () => {
+    store.select({ range: window, compareMode: true });
+    reports.respond(0, report(40, 75));
+    reports.respond(1, report(0, 0));
+
+    expect(store.comparisonData()).toBeNull();
+    expect(store.comparisonProblem()).toBe('no-data');
+    expect(store.timeInRangePeriods().length).toBe(1);
+  });
+
+  it('should not compare a window with itself', () => {
+    store.select({ range: window, compareMode: true, comparisonOption: COMPARISON_OPTIONS[1] });
+    reports.respond(0, report(40, 75));
+
+    expect(reports.responses.length).toBe(1);
+    expect(store.comparisonProblem()).toBe('same-window');
+  });
+
+  it('should keep a ready report on screen while the next one loads', () => {
+    store.select({ range: window });
+    expect(store.refreshing()).toBeFalse();
+    reports.respond(0, report(40, 75));
+
+    store.select({ cohort: { diabetesType: 'type1' } });
+
+    expect(store.status()).toBe('loading');
+    expect(store.refreshing()).toBeTrue();
+    expect(store.clinicData().timeInRange.inRange).toBe(75);
+
+    reports.respond(1, report(40, 60));
+
+    expect(store.refreshing()).toBeFalse();
+    expect(store.clinicData().timeInRange.inRange).toBe(60);
+  });
+
+  it('should keep the last report when loading fails', () => {
+    store.select({ range: window });
+    reports.respond(0, report(40, 75));
+
+    reports.getClinicData = () => throwError(() => new ClinicDataError('invalid', 'Invalid', ['gmi is missing']));
+    store.reload();
+
+    expect(store.status()).toBe('invalid');
+    expect(store.problems()).toEqual(['gmi is missing']);
+    expect(store.clinicData().timeInRange.inRange).toBe(75);
+  });
+
+  it('should open a drill-down without reloading the report', () => {
+    spyOn(reports, 'getPatientsInBucket').and.callThrough();
+    store.select({ range: window });
+    reports.respond(0, report(40, 75));
+    expect(store.drilldownPatients()).toBeNull();
+
+    store.select({ drilldown: { bucket: 'low', period: 'current' } });
+
+    expect(reports.responses.length).toBe(1);
+    expect(reports.getPatientsInBucket).toHaveBeenCalledWith(window, 'low', jasmine.anything(), jasmine.anything());
+    expect(store.drilldownPatients()).toEqual([]);
+  });
+
+  it('should not load the patients of a cohort too small to report', () => {
+    spyOn(reports, 'getPatients').and.callThrough();
+    spyOn(reports, 'getPatientsInBucket').and.callThrough();
+    store.select({ range: window, cohort: { diabetesType: 'type1' }, drilldown: { bucket: 'low', period: 'current' } });
+    reports.respond(0, report(4, 75));
+
+    expect(store.status()).toBe('suppressed');
+    expect(reports.getPatients).not.toHaveBeenCalled();
+    expect(reports.getPatientsInBucket).not.toHaveBeenCalled();
+    expect(store.drilldownPatients()).toBeNull();
+    expect(store.worklistPatients()).toBeNull();
+  });
+
+  it('should load the trend series at the chosen interval', () => {
+    store.selectTrendInterval('weekly');
+
+    expect(store.trendInterval()).toBe('weekly');
+    expect(store.trendSeries()?.interval).toBe('weekly');
+  });
+});
@@ -0,0 +1,314 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { Observable, Subject, catchError, forkJoin, map, of, switchMap } from 'rxjs';
+import { ALL_CLINICS, ClinicData, ClinicReportsService, CohortFilter, PatientBucket, PatientSummary, ReportScope, TrendInterval, TrendSeries, isCohortFiltered } from '../../clinic-reports.service';
+import { MIN_COHORT_SIZE, ReportingWindow } from '../../clinic-metrics.service';
+import { ClinicDataError } from '../../clinic-data-validator';
+import { t } from '../../i18n.service';
+import { ChartPeriod } from '../chart-tables';
+import { DEFAULT_DATE_RANGE_PRESET } from '../date-range-picker/date-range-picker.component';
+import { ComparisonOption, COMPARISON_OPTIONS, comparesWithItself } from '../period-comparison/period-comparison.component';
+import { ReportLoadState } from '../report-status/report-status.component';
+
+// The chart segment whose patients are listed
+export interface DashboardDrilldown {
+  bucket: PatientBucket;
+  period: 'current' | 'comparison';
+}
+
+// What the dashboard reports on; changing anything but the drill-down reloads the report
+export interface DashboardSelection {
+  range: ReportingWindow;
+  scope: ReportScope;
+  cohort: CohortFilter;
+  compareMode: boolean;
+  comparisonOption: ComparisonOption;
+  drilldown: DashboardDrilldown | null;
+}
+
+// Included patients of the selection and of the period before it, for the worklist
+export interface WorklistPatients {
+  current: PatientSummary[];
+  previous: PatientSummary[];
+}
+
+// Why compare mode shows no comparison: the window has no data, too few
+// patients to show, or is the current window itself
+export type ComparisonProblem = 'no-data' | 'suppressed' | 'same-window';
+
+// The latest report and whether it can be shown
+export interface DashboardReport {
+  status: ReportLoadState;
+  problems: string[];
+  clinicData: ClinicData;
+  comparisonData: ClinicData | null;
+  comparisonProblem: ComparisonProblem | null;
+  refreshing: boolean; // A ready report stays on screen while the next one loads
+}
+
+// Shown until the first report has loaded
+const PLACEHOLDER_DATA: ClinicData = {
+  patientCount: 120,
+  reportingDays: 30,
+  dateRange: '2024-01-01/2024-01-31',
+  lastUpdated: '2024-01-06T15:00:00Z',
+  timeInRange: { inRange: 82, aboveRange: 16, belowRange: 2, veryLow: 1, low: 1, high: 15, veryHigh: 1 },
+  gmi: { average: 6.7, distribution: { optimal: 72, suboptimal: 23, poor: 5 } }
+};
+
+// Whether two selections need the same report
+function sameReport(a: DashboardSelection, b: DashboardSelection): boolean {
+  const key = ({ range, scope, cohort, compareMode, comparisonOption }: DashboardSelection) => JSON.stringify({
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    scope,
+    cohort: Object.entries(cohort).filter(([, value]) => value).sort(),
+    comparison: compareMode ? comparisonOption.id : null
+  });
+  return key(a) === key(b);
+}
+
+// Cohort reports with only a few patients could identify them
+function isSuppressed(data: ClinicData, cohort: CohortFilter): boolean {
+  return isCohortFiltered(cohort) && data.patientCount > 0 && data.patientCount < MIN_COHORT_SIZE;
+}
+
+/**
+ * Dashboard state: the selection, the report loaded for it, the patients
+ * behind the open drill-down and the worklist, and the trend series. Loads go through
+ * switchMap, so a new selection cancels the request still in flight and an
+ * older response can never replace a newer one. The last report is kept
+ * while the next one loads.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DashboardStore {
+
+  // The day date presets end on: the data source's latest data
+  readonly latestDate: Date;
+
+  // The range is set once the data source's latest date is known
+  private readonly selectionState = signal<DashboardSelection>({
+    range: { from: new Date(0), to: new Date(0) },
+    scope: ALL_CLINICS,
+    cohort: {},
+    compareMode: false,
+    comparisonOption: COMPARISON_OPTIONS[0],
+    drilldown: null
+  });
+
+  // Whether the report has been requested yet
+  private requested = false;
+
+  private readonly report = signal<DashboardReport>({ status: 'loading', problems: [], clinicData: PLACEHOLDER_DATA, comparisonData: null, comparisonProblem: null, refreshing: false });
+
+  // Null until the open drill-down's patients have loaded
+  private readonly drilldownState = signal<PatientSummary[] | null>(null);
+
+  // Null until the worklist's patients have loaded
+  private readonly worklistState = signal<WorklistPatients | null>(null);
+
+  private readonly trend = signal<{ interval: TrendInterval; series: TrendSeries | null }>({ interval: 'monthly', series: null });
+
+  private readonly reportLoads = new Subject<DashboardSelection>();
+  private readonly drilldownLoads = new Subject<DashboardSelection>();
+  private readonly worklistLoads = new Subject<DashboardSelection>();
+  private readonly trendLoads = new Subject<TrendInterval>();
+
+  // Selectors
+  readonly selection = this.selectionState.asReadonly();
+  readonly status = computed(() => this.report().status);
+  readonly refreshing = computed(() => this.report().refreshing);
+  readonly problems = computed(() => this.report().problems);
+  readonly clinicData = computed(() => this.report().clinicData);
+  readonly comparisonData = computed(() => this.report().comparisonData);
+  readonly comparisonProblem = computed(() => this.report().comparisonProblem);
+  readonly drilldownPatients = this.drilldownState.asReadonly();
+  readonly worklistPatients = this.worklistState.asReadonly();
+  readonly trendInterval = computed(() => this.trend().interval);
+  readonly trendSeries = computed(() => this.trend().series);
+
+  // Window the comparison period covers
+  readonly comparisonRange = computed(() => this.selectionState().comparisonOption.resolve(this.selectionState().range));
+
+  // Window the drill-down's patients were reported for
+  readonly drilldownRange = computed(() => this.selectionState().drilldown?.period === 'comparison' ? this.comparisonRange() : this.selectionState().range);
+
+  // Bars of the time in range chart: the current period, then the comparison period
+  readonly timeInRangePeriods = computed<ChartPeriod[]>(() => {
+    const { clinicData, comparisonData } = this.report();
+    return [
+      { label: t('Current'), timeInRange: clinicData.timeInRange },
+      ...(comparisonData ? [{ label: this.selectionState().comparisonOption.label, timeInRange: comparisonData.timeInRange }] : [])
+    ];
+  });
+
+  constructor(private clinicReportsService: ClinicReportsService) {
+    this.latestDate = this.clinicReportsService.latestDate();
+    this.selectionState.update(selection => ({ ...selection, range: DEFAULT_DATE_RANGE_PRESET.resolve(this.latestDate) }));
+
+    this.reportLoads.pipe(switchMap(selection => this.fetchReport(selection)))
+      .subscribe(report => this.showReport(report));
+
+    this.drilldownLoads.pipe(switchMap(selection => this.fetchDrilldown(selection)))
+      .subscribe(patients => this.drilldownState.set(patients));
+
+    this.worklistLoads.pipe(switchMap(selection => this.fetchWorklist(selection)))
+      .subscribe(patients => this.worklistState.set(patients));
+
+    this.trendLoads.pipe(switchMap(interval => this.clinicReportsService.getTrendData(interval).pipe(
+      catchError(error => {
+        console.error(`Error loading ${interval} trend data:`, error);
+        return of(null);
+      })
+    ))).subscribe(series => this.trend.update(trend => ({ ...trend, series: series ?? trend.series })));
+  }
+
+  /**
+   * Change what the dashboard reports on, loading the report and the
+   * drill-down's patients when they are affected
+   * @param changes - The parts of the selection that changed
+   */
+  select(changes: Partial<DashboardSelection>) {
+    const previous = this.selectionState();
+    const selection = { ...previous, ...changes };
+    this.selectionState.set(selection);
+
+    const drilldownChanged = JSON.stringify(previous.drilldown) !== JSON.stringify(selection.drilldown);
+    if (drilldownChanged) {
+      this.drilldownState.set(null);
+    }
+    if (!this.requested || !sameReport(previous, selection)) {
+      this.reload();
+    } else if (drilldownChanged && this.status() === 'ready') {
+      this.drilldownLoads.next(selection);
+    }
+  }
+
+  /**
+   * Load the report for the current selection again, then its drill-down
+   * and worklist, e.g. after a failure or when imported readings change
+   * their figures
+   */
+  reload() {
+    this.requested = true;
+    this.report.update(report => ({
+      ...report,
+      status: 'loading',
+      problems: [],
+      refreshing: report.status === 'ready' || report.refreshing
+    }));
+    this.reportLoads.next(this.selectionState());
+  }
+
+  /**
+   * Show the trend series at another interval
+   * @param interval - Weekly or monthly data points
+   */
+  selectTrendInterval(interval: TrendInterval) {
+    this.trend.update(trend => ({ ...trend, interval }));
+    this.trendLoads.next(interval);
+  }
+
+  // Reload the trend series at the current interval
+  reloadTrends() {
+    this.trendLoads.next(this.trend().interval);
+  }
+
+  /**
+   * Show a loaded report. Patient lists are only loaded for a report that
+   * can be shown, so a suppressed cohort's patients are never requested.
+   * @param report - The report for the current selection
+   */
+  private showReport(report: DashboardReport) {
+    this.report.set(report);
+    if (report.status === 'ready') {
+      this.drilldownLoads.next(this.selectionState());
+      this.worklistLoads.next(this.selectionState());
+    } else {
+      this.drilldownState.set(null);
+      this.worklistState.set(null);
+    }
+  }
+
+  /**
+   * Patients in the drill-down's segment; null when it is closed, none when
+   * they cannot be loaded
+   * @param selection - The selection with the drill-down
+   */
+  private fetchDrilldown(selection: DashboardSelection): Observable<PatientSummary[] | null> {
+    const { drilldown, scope, cohort } = selection;
+    if (!drilldown) {
+      return of(null);
+    }
+    const range = drilldown.period === 'comparison' ? selection.comparisonOption.resolve(selection.range) : selection.range;
+    return this.clinicReportsService.getPatientsInBucket(range, drilldown.bucket, scope, cohort).pipe(
+      catchError(error => {
+        console.error(`Error loading patients for ${drilldown.bucket}:`, error);
+        return of([]);
+      })
+    );
+  }
+
+  /**
+   * Patients of a selection and of the same length period before it, so
+   * the worklist can flag changes; none when they cannot be loaded
+   * @param selection - The selection to list patients for
+   */
+  private fetchWorklist(selection: DashboardSelection): Observable<WorklistPatients> {
+    const { range, scope, cohort } = selection;
+    const previousRange = COMPARISON_OPTIONS[0].resolve(range);
+    return forkJoin({
+      current: this.clinicReportsService.getPatients(range, scope, cohort),
+      previous: this.clinicReportsService.getPatients(previousRange, scope, cohort)
+    }).pipe(
+      catchError(error => {
+        console.error('Error loading patients for the worklist:', error);
+        return of({ current: [], previous: [] });
+      })
+    );
+  }
+
+  /**
+   * Load the report for a selection, plus the comparison window when
+   * compare mode is on. Errors become the failed or invalid status.
+   * @param selection - The selection to report on
+   */
+  private fetchReport(selection: DashboardSelection): Observable<DashboardReport> {
+    const { range, scope, cohort } = selection;
+    const sameWindow = selection.compareMode && comparesWithItself(selection.comparisonOption, range);
+    const comparisonRange = selection.compareMode && !sameWindow ? selection.comparisonOption.resolve(range) : null;
+
+    return forkJoin({
+      current: this.clinicReportsService.getClinicData(range, scope, cohort),
+      comparison: comparisonRange ? this.clinicReportsService.getClinicData(comparisonRange, scope, cohort) : of(null)
+    }).pipe(
+      map(({ current, comparison }): DashboardReport => {
+        // A comparison without data, or too small to report, is left out rather than shown as zeros
+        const comparisonProblem: ComparisonProblem | null = sameWindow ? 'same-window'
+          : !comparison ? null
+          : comparison.patientCount === 0 ? 'no-data'
+          : isSuppressed(comparison, cohort) ? 'suppressed'
+          : null;
+        return {
+          status: current.patientCount === 0 ? 'no-data' : isSuppressed(current, cohort) ? 'suppressed' : 'ready',
+          problems: [],
+          clinicData: current,
+          comparisonData: comparison && !comparisonProblem ? comparison : null,
+          comparisonProblem,
+          refreshing: false
+        };
+      }),
+      catchError(error => {
+        console.error('Error loading clinic data:', error);
+        const invalid = error instanceof ClinicDataError && error.kind === 'invalid';
+        return of<DashboardReport>({
+          ...this.report(),
+          status: invalid ? 'invalid' : 'failed',
+          problems: invalid ? error.problems : [],
+          refreshing: false
+        });
+      })
+    );
+  }
+}
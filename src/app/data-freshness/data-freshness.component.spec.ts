@@ -0,0 +1,33 @@
+import { ClinicData } from '../../clinic-reports.service';
+import { isOutOfDate } from './data-freshness.component';
+
+describe('isOutOfDate', () => {
+  const data: ClinicData = {
+    patientCount: 40,
+    reportingDays: 30,
+    dateRange: '2024-03-02/2024-03-31',
+    lastUpdated: '2024-04-01T09:00:00Z',
+    fetchedAt: '2024-04-03T12:00:00Z',
+    timeInRange: { inRange: 75, aboveRange: 22, belowRange: 3, veryLow: 1, low: 2, high: 17, veryHigh: 5 },
+    gmi: { average: 7, distribution: { optimal: 50, suboptimal: 40, poor: 10 } }
+  };
+
+  it('should accept data updated after the end of its window', () => {
+    expect(isOutOfDate(data)).toBeFalse();
+  });
+
+  it('should flag data last updated days before the end of its window', () => {
+    expect(isOutOfDate({ ...data, lastUpdated: '2024-03-06T15:00:00Z' })).toBeTrue();
+  });
+
+  it('should only expect data up to when it was fetched', () => {
+    const running = { ...data, dateRange: '2024-03-02/2024-04-30', fetchedAt: '2024-04-01T12:00:00Z' };
+
+    expect(isOutOfDate(running)).toBeFalse();
+    expect(isOutOfDate({ ...running, fetchedAt: '2024-04-05T12:00:00Z' })).toBeTrue();
+  });
+
+  it('should not judge reports computed without a fetch', () => {
+    expect(isOutOfDate({ ...data, lastUpdated: '2024-03-06T15:00:00Z', fetchedAt: undefined })).toBeFalse();
+  });
+});
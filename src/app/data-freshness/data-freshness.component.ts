@@ -0,0 +1,52 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ClinicData } from '../../clinic-reports.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+const DAY_MS = 86400000;
+
+// How long data may lag behind the end of its window before it is stale
+export const STALE_AFTER_MS = DAY_MS;
+
+/**
+ * Whether a report's data was already out of date when it was fetched: last
+ * updated more than STALE_AFTER_MS before the end of its window, or before
+ * the fetch when that came first
+ * @param data - The report
+ */
+export function isOutOfDate(data: ClinicData): boolean {
+  const lastUpdated = Date.parse(data.lastUpdated);
+  if (!data.fetchedAt || isNaN(lastUpdated)) {
+    return false;
+  }
+  const windowEnd = Date.parse(data.dateRange.split('/')[1]) + DAY_MS;
+  return Math.min(windowEnd, Date.parse(data.fetchedAt)) - lastUpdated > STALE_AFTER_MS;
+}
+
+/**
+ * How current the report is: when its data was last updated, and a stale
+ * badge when the data was out of date when it was fetched, or comes from a
+ * cached response the data source could not refresh, e.g. while offline
+ */
+@Component({
+  selector: 'app-data-freshness',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './data-freshness.component.html',
+  styleUrl: './data-freshness.component.css'
+})
+export class DataFreshnessComponent {
+  @Input({ required: true }) data!: ClinicData;
+
+  // Shown from the cache because the data source could not be reached
+  get refreshFailed(): boolean {
+    return !!this.data.stale;
+  }
+
+  get outOfDate(): boolean {
+    return isOutOfDate(this.data);
+  }
+
+  get stale(): boolean {
+    return this.refreshFailed || this.outOfDate;
+  }
+}
@@ -0,0 +1,27 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DataQuality } from '../../clinic-reports.service';
+import { MIN_DAYS_OF_DATA } from '../../clinic-metrics.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+/**
+ * How many enrolled patients the report's figures cover, why the others
+ * were left out, and their mean sensor wear
+ */
+@Component({
+  selector: 'app-data-quality',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './data-quality.component.html',
+  styleUrl: './data-quality.component.css'
+})
+export class DataQualityComponent {
+  @Input({ required: true }) quality!: DataQuality;
+  // Patients the report's figures were computed from
+  @Input() includedCount = 0;
+
+  readonly minDaysOfData = MIN_DAYS_OF_DATA;
+
+  get excludedCount(): number {
+    return this.quality.excluded.noData + this.quality.excluded.insufficientData;
+  }
+}
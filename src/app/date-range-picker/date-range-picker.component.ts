@@ -0,0 +1,114 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReportingWindow } from '../../clinic-metrics.service';
+import { utcToday } from '../../data-sources/clinic-data-source';
+import { t } from '../../i18n.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+// A named shortcut that resolves to a window ending on the latest day with data
+export interface DateRangePreset {
+  id: string; // Names the preset in dashboard links, e.g. '90d'
+  label: string;
+  resolve: (today: Date) => ReportingWindow;
+}
+
+const DAY_MS = 86400000;
+
+function lastDays(days: number): DateRangePreset {
+  return {
+    id: `${days}d`,
+    label: t('{days} days', { days }),
+    resolve: (today: Date) => ({ from: new Date(today.getTime() - (days - 1) * DAY_MS), to: today })
+  };
+}
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = [
+  lastDays(7),
+  lastDays(14),
+  lastDays(30),
+  lastDays(60),
+  lastDays(90),
+  {
+    id: 'qtd',
+    label: t('Quarter to date'),
+    resolve: (today: Date) => {
+      const quarterStartMonth = Math.floor(today.getUTCMonth() / 3) * 3;
+      return { from: new Date(Date.UTC(today.getUTCFullYear(), quarterStartMonth, 1)), to: today };
+    }
+  }
+];
+
+// The dashboard opens on the last 30 days
+export const DEFAULT_DATE_RANGE_PRESET = DATE_RANGE_PRESETS[2];
+
+/**
+ * The preset a window was chosen with, if any
+ * @param range - The reporting window
+ * @param today - The day presets end on
+ */
+export function matchingPreset(range: ReportingWindow, today: Date = utcToday()): DateRangePreset | null {
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+  return DATE_RANGE_PRESETS.find(preset => {
+    const window = preset.resolve(today);
+    return day(window.from) === day(range.from) && day(window.to) === day(range.to);
+  }) ?? null;
+}
+
+@Component({
+  selector: 'app-date-range-picker',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './date-range-picker.component.html',
+  styleUrl: './date-range-picker.component.css'
+})
+export class DateRangePickerComponent implements OnChanges {
+  @Input() range!: ReportingWindow;
+  @Input() today: Date = utcToday(); // The day presets end on
+  @Output() rangeChange = new EventEmitter<ReportingWindow>();
+
+  presets = DATE_RANGE_PRESETS;
+  activePreset: DateRangePreset | null = null;
+
+  ngOnChanges() {
+    // Highlight the preset that matches the range, if any, e.g. after going back in history
+    this.activePreset = matchingPreset(this.range, this.today);
+  }
+
+  selectPreset(preset: DateRangePreset) {
+    this.activePreset = preset;
+    this.emit(preset.resolve(this.today));
+  }
+
+  onFromChange(event: Event) {
+    const from = this.parseInput(event);
+    if (from) {
+      this.activePreset = null;
+      this.emit({ from, to: from > this.range.to ? from : this.range.to });
+    }
+  }
+
+  onToChange(event: Event) {
+    const to = this.parseInput(event);
+    if (to) {
+      this.activePreset = null;
+      this.emit({ from: to < this.range.from ? to : this.range.from, to });
+    }
+  }
+
+  /**
+   * Format a date as yyyy-mm-dd for input[type=date]
+   */
+  toInputValue(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private emit(range: ReportingWindow) {
+    this.range = range;
+    this.rangeChange.emit(range);
+  }
+
+  private parseInput(event: Event): Date | null {
+    const value = (event.target as HTMLInputElement).value;
+    const date = new Date(value);
+    return value && !isNaN(date.getTime()) ? date : null;
+  }
+}
@@ -0,0 +1,127 @@
+import { Component, Input } from '@angular/core';
+import { ChartConfiguration } from 'chart.js';
+import { SENSOR_LIMITS } from '../../cgm-import.service';
+import { GlucoseRanges, GlucoseSettings, STANDARD_GLUCOSE_SETTINGS } from '../../glucose-settings.service';
+import { GlucoseUnit, formatGlucose } from '../../glucose-unit.service';
+import { ColorPalette } from '../../color-palette.service';
+import { t } from '../../i18n.service';
+import { ChartComponent } from '../chart-component';
+import { timeInRangeTiers } from '../time-in-range-tiers';
+import { segmentFill } from '../chart-plugins/fill-patterns';
+
+/**
+ * The glucose tiers across the sensor's reporting range, each segment as
+ * wide as the glucose values it covers, with its boundaries labelled
+ */
+@Component({
+  selector: 'app-glucose-scale',
+  templateUrl: './glucose-scale.component.html',
+  styleUrl: './glucose-scale.component.css'
+})
+export class GlucoseScaleComponent extends ChartComponent {
+  @Input() ranges: GlucoseRanges = STANDARD_GLUCOSE_SETTINGS.ranges;
+  @Input() colors: GlucoseSettings['colors'] = STANDARD_GLUCOSE_SETTINGS.colors;
+  @Input() unit: GlucoseUnit = 'mg/dL';
+  @Input() palette: ColorPalette = 'clinic';
+
+  get title(): string {
+    return t('Glucose ranges ({unit})', { unit: this.unit });
+  }
+
+  // Names the glucose ranges the scale draws, for screen readers
+  get description(): string {
+    return `${this.title}: ${timeInRangeTiers(this.ranges, this.colors, this.unit).map(tier => tier.label).join(', ')}`;
+  }
+
+  // Tier boundaries from the sensor's lowest to highest reading
+  private get bounds(): number[] {
+    const ranges = this.ranges;
+    return [SENSOR_LIMITS.low, ranges.veryLow, ranges.low, ranges.high, ranges.veryHigh, SENSOR_LIMITS.high];
+  }
+
+  protected config(): ChartConfiguration {
+    const bounds = this.bounds;
+    return {
+      type: 'bar',
+      data: {
+        labels: [''],
+        datasets: timeInRangeTiers(this.ranges, this.colors, this.unit).map((tier, index) => ({
+          label: tier.label,
+          data: [bounds[index + 1] - bounds[index]],
+          backgroundColor: segmentFill(tier, this.palette),
+          borderWidth: 0,
+          barPercentage: 1.0,
+          categoryPercentage: 1.0
+        }))
+      },
+      options: {
+        indexAxis: 'y',
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: false },
+          tooltip: {
+            callbacks: {
+              // Segment widths are in mg/dL, so only the tier is shown
+              label: (context: any) => context.dataset.label
+            }
+          }
+        },
+        scales: {
+          x: {
+            stacked: true,
+            beginAtZero: true,
+            max: SENSOR_LIMITS.high - SENSOR_LIMITS.low,
+            ticks: { display: false },
+            grid: { display: false },
+            border: { display: false }
+          },
+          y: {
+            stacked: true,
+            display: false
+          }
+        },
+        layout: {
+          padding: { top: 25, bottom: 8, left: 0, right: 0 }
+        }
+      } as any,
+      plugins: [{
+        id: 'scaleLabels',
+        afterDraw: (chart: any) => {
+          const ctx = chart.ctx;
+          const chartArea = chart.chartArea;
+          const bounds = this.bounds;
+          const position = (value: number) => (value - SENSOR_LIMITS.low) / (SENSOR_LIMITS.high - SENSOR_LIMITS.low);
+          ctx.fillStyle = '#666';
+          ctx.font = '11px Arial';
+          ctx.textAlign = 'center';
+
+          // Label every tier boundary at its position on the scale
+          const totalWidth = chartArea.right - chartArea.left;
+          bounds.forEach(value => {
+            const x = chartArea.left + (totalWidth * position(value));
+            ctx.fillText(formatGlucose(value, this.unit), x, chartArea.top - 8);
+          });
+
+          // Add vertical divider lines after the very low, target and very high segments
+          ctx.strokeStyle = '#ffffff';
+          ctx.lineWidth = 1;
+
+          [bounds[1], bounds[3], bounds[5]].forEach(value => {
+            const x = chartArea.left + (totalWidth * position(value));
+            ctx.beginPath();
+            ctx.moveTo(x, chartArea.top);
+            ctx.lineTo(x, chartArea.bottom);
+            ctx.stroke();
+          });
+
+          // Add the unit label
+          ctx.font = '10px Arial';
+          ctx.fillStyle = '#999';
+          ctx.textAlign = 'center';
+          ctx.fillText(this.unit, chartArea.left + totalWidth / 2, chartArea.top - 25);
+        }
+      }]
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Clinic, ClinicReportsService } from '../../clinic-reports.service';
+import {
+  GLUCOSE_SETTINGS_PRESETS,
+  GlucoseRanges,
+  GlucoseSettings,
+  GlucoseSettingsService,
+  GmiThresholds,
+  validateGlucoseSettings
+} from '../../glucose-settings.service';
+import { GlucoseUnit, GlucoseUnitService, fromGlucoseUnit, toGlucoseUnit } from '../../glucose-unit.service';
+import { t } from '../../i18n.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+import { gmiBuckets, timeInRangeTiers } from '../time-in-range-tiers';
+
+@Component({
+  selector: 'app-glucose-settings',
+  imports: [CommonModule, RouterLink, TranslatePipe],
+  templateUrl: './glucose-settings.component.html',
+  styleUrl: './glucose-settings.component.css'
+})
+export class GlucoseSettingsComponent implements OnInit {
+  clinics: Clinic[] = [];
+  presets = GLUCOSE_SETTINGS_PRESETS;
+
+  // null edits the default used by the all clinics report and clinics without their own
+  clinicId: string | null = null;
+  draft!: GlucoseSettings;
+  problems: string[] = [];
+  saved = false;
+
+  // Ranges are entered in the user's unit and saved in mg/dL
+  unit: GlucoseUnit;
+
+  rangeFields: { key: keyof GlucoseRanges; label: string }[] = [
+    { key: 'veryLow', label: t('Very low below') },
+    { key: 'low', label: t('Target range from') },
+    { key: 'high', label: t('Target range to') },
+    { key: 'veryHigh', label: t('Very high above') }
+  ];
+
+  gmiFields: { key: keyof GmiThresholds; label: string }[] = [
+    { key: 'optimal', label: t('Optimal at or below') },
+    { key: 'poor', label: t('Poor at or above') }
+  ];
+
+  constructor(
+    private clinicReportsService: ClinicReportsService,
+    private glucoseSettings: GlucoseSettingsService,
+    glucoseUnit: GlucoseUnitService
+  ) {
+    this.unit = glucoseUnit.unit;
+  }
+
+  ngOnInit() {
+    this.edit(null);
+    this.clinicReportsService.getClinics().subscribe(clinics => this.clinics = clinics);
+  }
+
+  // Tiers and buckets of the draft, for the preview and colour pickers
+  get tiers() {
+    return timeInRangeTiers(this.draft.ranges, this.draft.colors, this.unit);
+  }
+
+  get buckets() {
+    return gmiBuckets(this.draft.gmi, this.draft.colors);
+  }
+
+  // Whether the clinic being edited has its own settings rather than the default ones
+  get ownSettings(): boolean {
+    return this.glucoseSettings.hasOwnSettings(this.clinicId);
+  }
+
+  /**
+   * Start editing the settings of a clinic, or the default settings
+   * @param clinicId - The clinic, or '' / null for the default settings
+   */
+  edit(clinicId: string | null) {
+    this.clinicId = clinicId || null;
+    this.update(structuredClone(this.glucoseSettings.getSettings(this.clinicId)));
+    this.saved = false;
+  }
+
+  applyPreset(index: number) {
+    const preset = this.presets[index];
+    this.update({ ...structuredClone(preset), name: t(preset.name) });
+  }
+
+  setName(name: string) {
+    this.update({ ...this.draft, name });
+  }
+
+  rangeValue(key: keyof GlucoseRanges): number {
+    return toGlucoseUnit(this.draft.ranges[key], this.unit);
+  }
+
+  /**
+   * Change one range boundary
+   * @param key - The boundary
+   * @param value - The value entered, in the user's unit
+   */
+  setRange(key: keyof GlucoseRanges, value: number) {
+    this.update({ ...this.draft, ranges: { ...this.draft.ranges, [key]: fromGlucoseUnit(value, this.unit) } });
+  }
+
+  setGmi(key: keyof GmiThresholds, value: number) {
+    this.update({ ...this.draft, gmi: { ...this.draft.gmi, [key]: value } });
+  }
+
+  setColor(key: keyof GlucoseSettings['colors'], color: string) {
+    this.update({ ...this.draft, colors: { ...this.draft.colors, [key]: color } });
+  }
+
+  save() {
+    if (this.problems.length) return;
+    this.glucoseSettings.saveSettings(this.clinicId, this.draft);
+    this.saved = true;
+  }
+
+  // Go back to the default settings, or to the standard ones when editing the default
+  reset() {
+    this.glucoseSettings.resetSettings(this.clinicId);
+    this.edit(this.clinicId);
+  }
+
+  private update(draft: GlucoseSettings) {
+    this.draft = draft;
+    this.problems = validateGlucoseSettings(draft);
+    this.saved = false;
+  }
+}
@@ -0,0 +1,96 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartConfiguration } from 'chart.js';
+import { ClinicData } from '../../clinic-reports.service';
+import { GlucoseSettings, GmiBucket, GmiThresholds, STANDARD_GLUCOSE_SETTINGS } from '../../glucose-settings.service';
+import { ColorPalette } from '../../color-palette.service';
+import { t } from '../../i18n.service';
+import { ChartComponent } from '../chart-component';
+import { ChartTable, gmiTable } from '../chart-tables';
+import { gmiBuckets } from '../time-in-range-tiers';
+import { segmentLabelsPlugin } from '../chart-plugins/segment-labels.plugin';
+import { keyboardNavigation } from '../chart-plugins/keyboard-navigation.plugin';
+import { segmentFill } from '../chart-plugins/fill-patterns';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+
+/**
+ * Share of patients in each GMI bucket, with the percentage beside each slice
+ */
+@Component({
+  selector: 'app-gmi-pie',
+  imports: [CommonModule, ChartDataTableComponent],
+  templateUrl: './gmi-pie.component.html',
+  styleUrl: './gmi-pie.component.css'
+})
+export class GmiPieComponent extends ChartComponent {
+  @Input() distribution: ClinicData['gmi']['distribution'] = { optimal: 0, suboptimal: 0, poor: 0 };
+  // The cut points the distribution was computed with
+  @Input() gmi: GmiThresholds = STANDARD_GLUCOSE_SETTINGS.gmi;
+  @Input() colors: GlucoseSettings['colors'] = STANDARD_GLUCOSE_SETTINGS.colors;
+  @Input() palette: ColorPalette = 'clinic';
+  // Names the period, e.g. for the comparison pie
+  @Input() caption = t('GMI distribution');
+  // Emitted when a slice is clicked, or chosen with Enter
+  @Output() bucketClick = new EventEmitter<{ key: GmiBucket; label: string }>();
+
+  get title(): string {
+    return this.caption;
+  }
+
+  get label(): string {
+    return t('{chart} chart. Use the arrow keys to move between segments, and Enter to list their patients.', { chart: this.caption });
+  }
+
+  protected override buildTable(): ChartTable {
+    return gmiTable(this.caption, this.distribution, this.buckets());
+  }
+
+  protected config(): ChartConfiguration {
+    const buckets = this.buckets();
+    return {
+      type: 'pie',
+      data: {
+        labels: buckets.map(bucket => bucket.label),
+        datasets: [{
+          data: buckets.map(bucket => this.distribution[bucket.key]),
+          backgroundColor: buckets.map(bucket => segmentFill(bucket, this.palette)),
+          borderWidth: 2,
+          borderColor: '#ffffff'
+        }]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        onClick: (_event: any, elements: any[]) => {
+          if (!elements.length) return;
+          const bucket = buckets[elements[0].index];
+          this.bucketClick.emit({ key: bucket.key, label: bucket.label });
+        },
+        rotation: 150, // Rotate by another -45 degrees (total -90°)
+        plugins: {
+          legend: {
+            display: false
+          },
+          segmentLabels: {
+            font: 'bold 12px Arial',
+            fontSize: 12,
+            offset: 25
+          }
+        },
+        layout: {
+          padding: {
+            left: 60,
+            right: 60,
+            top: 25,
+            bottom: 25
+          }
+        }
+      } as any,
+      plugins: [segmentLabelsPlugin, keyboardNavigation(this.announce)]
+    };
+  }
+
+  private buckets() {
+    return gmiBuckets(this.gmi, this.colors);
+  }
+}
@@ -0,0 +1,14 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { formatDateRange } from '../../i18n.service';
+
+/**
+ * Format a report's ISO "YYYY-MM-DD/YYYY-MM-DD" dateRange for the current locale
+ */
+@Pipe({
+  name: 'dateRange'
+})
+export class DateRangePipe implements PipeTransform {
+  transform(range: string): string {
+    return formatDateRange(range);
+  }
+}
@@ -0,0 +1,15 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { t } from '../../i18n.service';
+
+/**
+ * Translate English text into the current locale, e.g.
+ * {{'Showing {count} patients' | translate: {count: n}}}
+ */
+@Pipe({
+  name: 'translate'
+})
+export class TranslatePipe implements PipeTransform {
+  transform(text: string, params?: { [name: string]: string | number | null }): string {
+    return t(text, params);
+  }
+}
@@ -0,0 +1,22 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { APP_LOCALES, AppLocale, I18nService } from '../../i18n.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+@Component({
+  selector: 'app-locale-selector',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './locale-selector.component.html',
+  styleUrl: './locale-selector.component.css'
+})
+export class LocaleSelectorComponent {
+  locales = APP_LOCALES;
+
+  constructor(public i18n: I18nService) {}
+
+  onLocaleChange(locale: AppLocale) {
+    if (locale !== this.i18n.locale) {
+      this.i18n.setLocale(locale);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { ColorPalette } from '../../color-palette.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+@Component({
+  selector: 'app-palette-selector',
+  imports: [TranslatePipe],
+  templateUrl: './palette-selector.component.html',
+  styleUrl: './palette-selector.component.css'
+})
+export class PaletteSelectorComponent {
+  @Input() palette: ColorPalette = 'clinic';
+  @Output() paletteChange = new EventEmitter<ColorPalette>();
+
+  onToggle(colorBlindSafe: boolean) {
+    this.paletteChange.emit(colorBlindSafe ? 'colorBlindSafe' : 'clinic');
+  }
+}
@@ -0,0 +1,44 @@
+import { PatientSummary } from '../../clinic-reports.service';
+import { PatientDrilldownComponent } from './patient-drilldown.component';
+
+function patient(patientId: string, gmi: number, inRange: number): PatientSummary {
+  return {
+    patientId,
+    daysWithData: 14,
+    gmi,
+    timeInRange: { inRange, aboveRange: 100 - inRange, belowRange: 0, veryLow: 0, low: 0, high: 100 - inRange, veryHigh: 0 },
+    lastUpload: '2024-01-30T10:00:00Z'
+  };
+}
+
+describe('PatientDrilldownComponent', () => {
+  let component: PatientDrilldownComponent;
+
+  beforeEach(() => {
+    component = new PatientDrilldownComponent();
+    component.patients = [patient('P-0002', 8.4, 60), patient('P-0001', 6.5, 90), patient('P-0010', 7.2, 75)];
+    component.ngOnChanges();
+  });
+
+  it('should sort by patient ID by default', () => {
+    expect(component.rows.map(p => p.patientId)).toEqual(['P-0001', 'P-0002', 'P-0010']);
+  });
+
+  it('should toggle sort direction when the same column is clicked twice', () => {
+    component.sortBy('gmi');
+    expect(component.rows.map(p => p.gmi)).toEqual([6.5, 7.2, 8.4]);
+
+    component.sortBy('gmi');
+    expect(component.rows.map(p => p.gmi)).toEqual([8.4, 7.2, 6.5]);
+  });
+
+  it('should sort by time in range', () => {
+    component.sortBy('inRange');
+    expect(component.rows.map(p => p.patientId)).toEqual(['P-0002', 'P-0010', 'P-0001']);
+  });
+
+  it('should filter rows by search term', () => {
+    component.onSearch({ target: { value: '001' } } as unknown as Event);
+    expect(component.rows.map(p => p.patientId)).toEqual(['P-0001', 'P-0010']);
+  });
+});
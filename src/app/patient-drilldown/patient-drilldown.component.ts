@@ -0,0 +1,84 @@
+import { AfterViewInit, Component, ElementRef, EventEmitter, Input, OnChanges, Output, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { PatientSummary } from '../../clinic-reports.service';
+import { ReportingWindow } from '../../clinic-metrics.service';
+import { t } from '../../i18n.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+export type PatientSortColumn = 'patientId' | 'daysWithData' | 'inRange' | 'gmi' | 'lastUpload';
+
+@Component({
+  selector: 'app-patient-drilldown',
+  imports: [CommonModule, RouterLink, TranslatePipe],
+  templateUrl: './patient-drilldown.component.html',
+  styleUrl: './patient-drilldown.component.css'
+})
+export class PatientDrilldownComponent implements OnChanges, AfterViewInit {
+  @Input() title = '';
+  @Input() patients: PatientSummary[] = [];
+  @Input() range?: ReportingWindow;
+  @Output() closed = new EventEmitter<void>();
+
+  @ViewChild('closeButton') closeButton?: ElementRef<HTMLButtonElement>;
+
+  columns: { key: PatientSortColumn; label: string }[] = [
+    { key: 'patientId', label: t('Patient') },
+    { key: 'daysWithData', label: t('Days of data') },
+    { key: 'inRange', label: t('TIR') },
+    { key: 'gmi', label: 'GMI' },
+    { key: 'lastUpload', label: t('Last upload') }
+  ];
+
+  search = '';
+  sortColumn: PatientSortColumn = 'patientId';
+  sortAscending = true;
+  rows: PatientSummary[] = [];
+
+  /**
+   * Query params that open a patient's AGP report for the same window
+   */
+  get reportParams(): { from?: string; to?: string } {
+    return this.range
+      ? { from: this.range.from.toISOString().slice(0, 10), to: this.range.to.toISOString().slice(0, 10) }
+      : {};
+  }
+
+  ngOnChanges() {
+    this.updateRows();
+  }
+
+  // Move keyboard focus into the dialog when it opens
+  ngAfterViewInit() {
+    this.closeButton?.nativeElement.focus();
+  }
+
+  onSearch(event: Event) {
+    this.search = (event.target as HTMLInputElement).value;
+    this.updateRows();
+  }
+
+  sortBy(column: PatientSortColumn) {
+    // Clicking the active column flips the direction
+    this.sortAscending = this.sortColumn === column ? !this.sortAscending : true;
+    this.sortColumn = column;
+    this.updateRows();
+  }
+
+  private updateRows() {
+    const term = this.search.trim().toLowerCase();
+    const direction = this.sortAscending ? 1 : -1;
+
+    this.rows = this.patients
+      .filter(patient => !term || patient.patientId.toLowerCase().includes(term))
+      .sort((a, b) => {
+        const x = this.sortValue(a);
+        const y = this.sortValue(b);
+        return (x < y ? -1 : x > y ? 1 : 0) * direction;
+      });
+  }
+
+  private sortValue(patient: PatientSummary): string | number {
+    return this.sortColumn === 'inRange' ? patient.timeInRange.inRange : patient[this.sortColumn];
+  }
+}
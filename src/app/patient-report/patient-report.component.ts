@@ -0,0 +1,106 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { ClinicReportsService } from '../../clinic-reports.service';
+import { AgpReport, ClinicMetricsService, PatientReadings, ReportingWindow } from '../../clinic-metrics.service';
+import { GlucoseSettings, GlucoseSettingsService, STANDARD_GLUCOSE_SETTINGS } from '../../glucose-settings.service';
+import { GlucoseUnit, GlucoseUnitService, formatGlucose } from '../../glucose-unit.service';
+import { ColorPalette, ColorPaletteService, paletteColors } from '../../color-palette.service';
+import { t } from '../../i18n.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+import { ChartPeriod } from '../chart-tables';
+import { TimeInRangeBarComponent } from '../time-in-range-bar/time-in-range-bar.component';
+import { AgpChartComponent } from '../agp-chart/agp-chart.component';
+import { DailyOverlayChartComponent } from '../daily-overlay-chart/daily-overlay-chart.component';
+
+// Standard AGP report length when no window is given
+const DEFAULT_REPORT_DAYS = 14;
+
+@Component({
+  selector: 'app-patient-report',
+  imports: [CommonModule, RouterLink, TranslatePipe, TimeInRangeBarComponent, AgpChartComponent, DailyOverlayChartComponent],
+  templateUrl: './patient-report.component.html',
+  styleUrl: './patient-report.component.css'
+})
+export class PatientReportComponent implements OnInit {
+  patientId = '';
+  range: ReportingWindow | null = null;
+  report: AgpReport | null = null;
+  loading = true;
+
+  // The patient's clinic's ranges and colours
+  settings: GlucoseSettings = STANDARD_GLUCOSE_SETTINGS;
+
+  // The patient's time in range, as the single bar of the time in range chart
+  timeInRange: ChartPeriod[] = [];
+
+  // The user's glucose unit; readings and metrics are in mg/dL
+  unit: GlucoseUnit;
+
+  // Clinic colours, or colour-blind safe ones with patterns
+  palette: ColorPalette;
+  colors: GlucoseSettings['colors'] = STANDARD_GLUCOSE_SETTINGS.colors;
+
+  constructor(
+    private route: ActivatedRoute,
+    private clinicReportsService: ClinicReportsService,
+    private metrics: ClinicMetricsService,
+    private glucoseSettings: GlucoseSettingsService,
+    glucoseUnit: GlucoseUnitService,
+    colorPalette: ColorPaletteService
+  ) {
+    this.unit = glucoseUnit.unit;
+    this.palette = colorPalette.palette;
+  }
+
+  ngOnInit() {
+    this.route.paramMap.subscribe(params => {
+      this.patientId = params.get('id') ?? '';
+      this.loadReport();
+    });
+  }
+
+  /**
+   * Format a glucose value in mg/dL in the user's unit
+   */
+  formatGlucose(mgdl: number): string {
+    return formatGlucose(mgdl, this.unit);
+  }
+
+  private loadReport() {
+    this.loading = true;
+    const requested = this.requestedRange();
+    this.clinicReportsService.getPatientReadings(this.patientId, requested ?? undefined).subscribe({
+      next: (patient: PatientReadings | null) => {
+        this.loading = false;
+        this.report = null;
+        if (!patient || !patient.readings.length) return;
+
+        this.range = requested ?? this.latestDays(patient);
+        this.settings = this.glucoseSettings.getSettings(patient.clinicId ?? null);
+        this.colors = paletteColors(this.palette, this.settings);
+        this.report = this.metrics.calculateAgpReport(patient, this.range, this.settings.ranges);
+        this.timeInRange = [{ label: t('Patient'), timeInRange: this.report.metrics.timeInRange }];
+      },
+      error: (error) => {
+        this.loading = false;
+        console.error(`Error loading readings for ${this.patientId}:`, error);
+      }
+    });
+  }
+
+  // Window from the from/to query params, when both are valid dates
+  private requestedRange(): ReportingWindow | null {
+    const query = this.route.snapshot.queryParamMap;
+    const from = new Date(query.get('from') ?? '');
+    const to = new Date(query.get('to') ?? '');
+    return !isNaN(from.getTime()) && !isNaN(to.getTime()) ? { from, to } : null;
+  }
+
+  // The last 14 days of the patient's readings
+  private latestDays(patient: PatientReadings): ReportingWindow {
+    const latest = patient.readings.reduce((max, reading) => reading.timestamp > max ? reading.timestamp : max, '');
+    const end = new Date(latest.slice(0, 10));
+    return { from: new Date(end.getTime() - (DEFAULT_REPORT_DAYS - 1) * 86400000), to: end };
+  }
+}
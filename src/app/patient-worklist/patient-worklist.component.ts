@@ -0,0 +1,116 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { PatientSummary } from '../../clinic-reports.service';
+import { ReportingWindow } from '../../clinic-metrics.service';
+import { GlucoseRanges } from '../../glucose-settings.service';
+import { GlucoseUnit } from '../../glucose-unit.service';
+import { toIsoDate } from '../../data-sources/clinic-data-source';
+import { AlertPriority, AlertRule, AlertRulesService, PatientAlert, WorklistEntry, alertMetricLabel, buildWorklist, formatAlertValue } from '../../alert-rules.service';
+import { FollowUpStatus, PatientFollowUp, PatientFollowUpService } from '../../patient-follow-up.service';
+import { formatDateTime, t } from '../../i18n.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+/**
+ * Patients who break an alert rule, most urgent first, with what the care
+ * team last did about each. The rules can be tuned in the panel.
+ */
+@Component({
+  selector: 'app-patient-worklist',
+  imports: [CommonModule, RouterLink, TranslatePipe],
+  templateUrl: './patient-worklist.component.html',
+  styleUrl: './patient-worklist.component.css'
+})
+export class PatientWorklistComponent implements OnChanges {
+  @Input() patients: PatientSummary[] = [];
+  @Input() previousPatients: PatientSummary[] = [];
+  @Input({ required: true }) ranges!: GlucoseRanges;
+  @Input() unit: GlucoseUnit = 'mg/dL';
+  @Input() range?: ReportingWindow;
+
+  readonly priorities: { key: AlertPriority; label: string }[] = [
+    { key: 'high', label: t('High priority') },
+    { key: 'medium', label: t('Medium priority') },
+    { key: 'low', label: t('Low priority') }
+  ];
+
+  entries: WorklistEntry[] = [];
+  rules: AlertRule[];
+
+  // Notes being written, by patient
+  notes: { [patientId: string]: string | undefined } = {};
+
+  constructor(private alertRules: AlertRulesService, private followUps: PatientFollowUpService) {
+    this.rules = this.alertRules.rules;
+  }
+
+  /**
+   * Query params that open a patient's AGP report for the same window
+   */
+  get reportParams(): { from?: string; to?: string } {
+    return this.range ? { from: toIsoDate(this.range.from), to: toIsoDate(this.range.to) } : {};
+  }
+
+  ngOnChanges() {
+    this.updateEntries();
+  }
+
+  ruleLabel(rule: AlertRule): string {
+    const threshold = formatAlertValue(rule.metric, rule.threshold);
+    return `${alertMetricLabel(rule.metric, this.ranges, this.unit)} ${rule.operator} ${threshold}`;
+  }
+
+  // e.g. "Time below 54 mg/dL: 2.5%"
+  alertLabel(alert: PatientAlert): string {
+    return `${alertMetricLabel(alert.rule.metric, this.ranges, this.unit)}: ${formatAlertValue(alert.rule.metric, alert.value)}`;
+  }
+
+  priorityLabel(priority: AlertPriority): string {
+    return this.priorities.find(candidate => candidate.key === priority)!.label;
+  }
+
+  followUp(patientId: string): PatientFollowUp | null {
+    return this.followUps.getFollowUp(patientId);
+  }
+
+  // e.g. "Contacted on 18 Oct 2026, 14:05"
+  followUpLabel(followUp: PatientFollowUp): string {
+    const date = formatDateTime(followUp.recordedAt);
+    return followUp.status === 'contacted' ? t('Contacted on {date}', { date }) : t('Reviewed on {date}', { date });
+  }
+
+  /**
+   * Record that a patient was reviewed or contacted, with the note typed for them
+   * @param patientId - The patient identifier
+   * @param status - What was done
+   */
+  recordFollowUp(patientId: string, status: FollowUpStatus) {
+    this.followUps.record(patientId, status, this.notes[patientId] ?? '');
+    this.notes[patientId] = '';
+  }
+
+  /**
+   * Change one rule and rebuild the worklist with it
+   * @param index - The rule's position
+   * @param changes - The fields that changed
+   */
+  updateRule(index: number, changes: Partial<AlertRule>) {
+    const rule = { ...this.rules[index], ...changes };
+    if (!Number.isFinite(rule.threshold)) {
+      return;
+    }
+    this.rules = this.rules.map((existing, i) => i === index ? rule : existing);
+    this.alertRules.setRules(this.rules);
+    this.updateEntries();
+  }
+
+  resetRules() {
+    this.alertRules.resetRules();
+    this.rules = this.alertRules.rules;
+    this.updateEntries();
+  }
+
+  private updateEntries() {
+    this.entries = buildWorklist(this.patients, this.previousPatients, this.rules);
+  }
+}
@@ -0,0 +1,71 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ClinicData } from '../../clinic-reports.service';
+import { ClinicMetricsService, MetricDelta, ReportingWindow } from '../../clinic-metrics.service';
+import { t } from '../../i18n.service';
+import { DateRangePipe } from '../i18n/date-range.pipe';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+// What the current window is compared against
+export interface ComparisonOption {
+  id: string; // Names the option in dashboard links, e.g. 'previous'
+  label: string;
+  resolve: (range: ReportingWindow) => ReportingWindow;
+}
+
+const DAY_MS = 86400000;
+
+function trailingDays(days: number): ComparisonOption {
+  return {
+    id: `last${days}`,
+    label: t('Last {days} days', { days }),
+    resolve: (range: ReportingWindow) => ({ from: new Date(range.to.getTime() - (days - 1) * DAY_MS), to: range.to })
+  };
+}
+
+export const COMPARISON_OPTIONS: ComparisonOption[] = [
+  {
+    id: 'previous',
+    label: t('Previous period'),
+    resolve: (range: ReportingWindow) => {
+      // Same length window ending the day before the current one starts
+      const length = range.to.getTime() - range.from.getTime();
+      const to = new Date(range.from.getTime() - DAY_MS);
+      return { from: new Date(to.getTime() - length), to };
+    }
+  },
+  trailingDays(30),
+  trailingDays(60),
+  trailingDays(90)
+];
+
+/**
+ * Whether an option would compare a window with itself, e.g. the last 30
+ * days with a 30 day window ending on the same day
+ * @param option - The comparison option
+ * @param range - The current window
+ */
+export function comparesWithItself(option: ComparisonOption, range: ReportingWindow): boolean {
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+  const comparison = option.resolve(range);
+  return day(comparison.from) === day(range.from) && day(comparison.to) === day(range.to);
+}
+
+@Component({
+  selector: 'app-period-comparison',
+  imports: [CommonModule, DateRangePipe, TranslatePipe],
+  templateUrl: './period-comparison.component.html',
+  styleUrl: './period-comparison.component.css'
+})
+export class PeriodComparisonComponent implements OnChanges {
+  @Input() current!: ClinicData;
+  @Input() baseline!: ClinicData;
+
+  deltas: MetricDelta[] = [];
+
+  constructor(private metrics: ClinicMetricsService) {}
+
+  ngOnChanges() {
+    this.deltas = this.metrics.compare(this.current, this.baseline);
+  }
+}
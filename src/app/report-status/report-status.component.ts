@@ -0,0 +1,22 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MIN_COHORT_SIZE, MIN_DAYS_OF_DATA } from '../../clinic-metrics.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+// Where the clinic report is between requesting and showing it
+export type ReportLoadState = 'loading' | 'ready' | 'no-data' | 'suppressed' | 'invalid' | 'failed';
+
+@Component({
+  selector: 'app-report-status',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './report-status.component.html',
+  styleUrl: './report-status.component.css'
+})
+export class ReportStatusComponent {
+  @Input() state: ReportLoadState = 'loading';
+  @Input() problems: string[] = [];
+  @Output() retry = new EventEmitter<void>();
+
+  minCohortSize = MIN_COHORT_SIZE;
+  minDaysOfData = MIN_DAYS_OF_DATA;
+}
@@ -0,0 +1,30 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ALL_CLINICS, Clinic, Provider, ReportScope } from '../../clinic-reports.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+@Component({
+  selector: 'app-scope-selector',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './scope-selector.component.html',
+  styleUrl: './scope-selector.component.css'
+})
+export class ScopeSelectorComponent {
+  @Input() clinics: Clinic[] = [];
+  @Input() scope: ReportScope = ALL_CLINICS;
+  @Output() scopeChange = new EventEmitter<ReportScope>();
+
+  // Providers of the selected clinic; none while all clinics are shown
+  get providers(): Provider[] {
+    return this.clinics.find(clinic => clinic.id === this.scope.clinicId)?.providers ?? [];
+  }
+
+  onClinicChange(clinicId: string) {
+    // A provider belongs to one clinic, so changing clinic resets it
+    this.scopeChange.emit({ clinicId: clinicId || null, providerId: null });
+  }
+
+  onProviderChange(providerId: string) {
+    this.scopeChange.emit({ clinicId: this.scope.clinicId, providerId: providerId || null });
+  }
+}
@@ -0,0 +1,89 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartConfiguration } from 'chart.js';
+import { SensorWearDistribution } from '../../clinic-reports.service';
+import { SENSOR_WEAR_BANDS } from '../../clinic-metrics.service';
+import { GlucoseSettings, STANDARD_GLUCOSE_SETTINGS } from '../../glucose-settings.service';
+import { t } from '../../i18n.service';
+import { ChartComponent } from '../chart-component';
+import { ChartTable, sensorWearTable } from '../chart-tables';
+import { keyboardNavigation } from '../chart-plugins/keyboard-navigation.plugin';
+import { patternFill } from '../chart-plugins/fill-patterns';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+
+// Sensor wear the International Consensus recommends for reliable figures
+const SENSOR_WEAR_GOAL = 70;
+
+/**
+ * Share of patients in each sensor wear band. Bands below the 70% goal are
+ * drawn in the high tier's colour and hatched, the others in the target
+ * range's colour.
+ */
+@Component({
+  selector: 'app-sensor-wear-chart',
+  imports: [CommonModule, ChartDataTableComponent],
+  templateUrl: './sensor-wear-chart.component.html',
+  styleUrl: './sensor-wear-chart.component.css'
+})
+export class SensorWearChartComponent extends ChartComponent {
+  @Input() distribution: SensorWearDistribution = { from0: 0, from50: 0, from70: 0, from90: 0 };
+  @Input() colors: GlucoseSettings['colors'] = STANDARD_GLUCOSE_SETTINGS.colors;
+
+  get title(): string {
+    return t('Sensor wear');
+  }
+
+  get label(): string {
+    return t('{chart} chart. Use the arrow keys to move between segments.', { chart: this.title });
+  }
+
+  protected override buildTable(): ChartTable {
+    return sensorWearTable(this.distribution, this.bands());
+  }
+
+  protected config(): ChartConfiguration {
+    const bands = this.bands();
+    const total = bands.reduce((sum, band) => sum + this.distribution[band.key], 0);
+    const belowGoal = bands.map(band => band.min < SENSOR_WEAR_GOAL);
+    return {
+      type: 'bar',
+      data: {
+        labels: bands.map(band => band.label),
+        datasets: [{
+          label: t('Patients'),
+          data: bands.map(band => total ? Math.round((this.distribution[band.key] / total) * 100) : 0),
+          backgroundColor: belowGoal.map(below => below ? patternFill(this.colors.high, 'diagonal') : this.colors.inRange)
+        }]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            display: false
+          }
+        },
+        scales: {
+          x: {
+            grid: { display: false },
+            title: { display: true, text: t('Sensor wear') }
+          },
+          y: {
+            beginAtZero: true,
+            max: 100,
+            title: { display: true, text: t('Share of patients') }
+          }
+        }
+      },
+      plugins: [keyboardNavigation(this.announce)]
+    };
+  }
+
+  // e.g. "50-69%"; the top band is open ended
+  private bands() {
+    return SENSOR_WEAR_BANDS.map((band, index) => {
+      const next = SENSOR_WEAR_BANDS[index + 1];
+      return { ...band, label: next ? `${band.min}-${next.min - 1}%` : `≥${band.min}%` };
+    });
+  }
+}
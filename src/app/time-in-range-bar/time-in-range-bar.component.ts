@@ -0,0 +1,120 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartConfiguration } from 'chart.js';
+import { GlucoseRanges, GlucoseSettings, STANDARD_GLUCOSE_SETTINGS } from '../../glucose-settings.service';
+import { GlucoseUnit } from '../../glucose-unit.service';
+import { ColorPalette } from '../../color-palette.service';
+import { t } from '../../i18n.service';
+import { ChartComponent } from '../chart-component';
+import { ChartPeriod, ChartTable, timeInRangeTable } from '../chart-tables';
+import { TimeInRangeTier, timeInRangeTiers } from '../time-in-range-tiers';
+import { segmentLabelsPlugin } from '../chart-plugins/segment-labels.plugin';
+import { keyboardNavigation } from '../chart-plugins/keyboard-navigation.plugin';
+import { segmentFill } from '../chart-plugins/fill-patterns';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+
+/**
+ * Stacked time-in-range bar, one bar per period (or patient), tiers bottom
+ * to top with their percentage beside them
+ */
+@Component({
+  selector: 'app-time-in-range-bar',
+  imports: [CommonModule, ChartDataTableComponent],
+  templateUrl: './time-in-range-bar.component.html',
+  styleUrl: './time-in-range-bar.component.css'
+})
+export class TimeInRangeBarComponent extends ChartComponent {
+  // The current period, then the comparison period if any
+  @Input() periods: ChartPeriod[] = [];
+  // The ranges the figures were computed with
+  @Input() ranges: GlucoseRanges = STANDARD_GLUCOSE_SETTINGS.ranges;
+  @Input() colors: GlucoseSettings['colors'] = STANDARD_GLUCOSE_SETTINGS.colors;
+  @Input() unit: GlucoseUnit = 'mg/dL';
+  @Input() palette: ColorPalette = 'clinic';
+  // Emitted when a segment is clicked, or chosen with Enter
+  @Output() segmentClick = new EventEmitter<{ periodIndex: number; tier: TimeInRangeTier }>();
+
+  get title(): string {
+    return t('Time in range');
+  }
+
+  // Enter only lists patients where something listens for the click
+  get label(): string {
+    return this.segmentClick.observed
+      ? t('{chart} chart. Use the arrow keys to move between segments, and Enter to list their patients.', { chart: this.title })
+      : t('{chart} chart. Use the arrow keys to move between segments.', { chart: this.title });
+  }
+
+  protected override buildTable(): ChartTable {
+    return timeInRangeTable(this.periods, this.tiers());
+  }
+
+  protected config(): ChartConfiguration {
+    const tiers = this.tiers();
+    const comparing = this.periods.length > 1;
+    return {
+      type: 'bar',
+      data: {
+        // A lone bar needs no name
+        labels: comparing ? this.periods.map(period => period.label) : [''],
+        datasets: tiers.map(tier => ({
+          label: tier.label,
+          data: this.periods.map(period => Math.round(period.timeInRange[tier.key])),
+          backgroundColor: segmentFill(tier, this.palette),
+          borderWidth: 0,
+          barPercentage: 0.3,
+          categoryPercentage: 0.4
+        }))
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        onClick: (_event: any, elements: any[]) => {
+          if (!elements.length) return;
+          this.segmentClick.emit({ periodIndex: elements[0].index, tier: tiers[elements[0].datasetIndex] });
+        },
+        plugins: {
+          legend: {
+            display: false
+          },
+          segmentLabels: {
+            font: 'bold 14px Arial',
+            fontSize: 14,
+            offset: 30
+          }
+        },
+        scales: {
+          x: {
+            stacked: true,
+            display: comparing,
+            grid: { display: false },
+            border: { display: false }
+          },
+          y: {
+            stacked: true,
+            beginAtZero: true,
+            max: 100,
+            position: 'left',
+            display: false,
+            ticks: {
+              display: false
+            },
+            grid: { display: false },
+            border: { display: false }
+          }
+        },
+        layout: {
+          padding: {
+            left: 15,
+            right: 50
+          }
+        }
+      } as any,
+      plugins: [segmentLabelsPlugin, keyboardNavigation(this.announce)]
+    };
+  }
+
+  private tiers(): TimeInRangeTier[] {
+    return timeInRangeTiers(this.ranges, this.colors, this.unit);
+  }
+}
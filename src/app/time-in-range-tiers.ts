@@ -0,0 +1,35 @@
+import { GlucoseRanges, GlucoseSettings, GlucoseTier, GmiBucket, GmiThresholds, gmiLabel, tierLabel } from '../glucose-settings.service';
+import { GlucoseUnit } from '../glucose-unit.service';
+
+export interface TimeInRangeTier {
+  label: string;
+  key: GlucoseTier;
+  color: string;
+}
+
+/**
+ * Consensus glucose tiers, bottom to top of a stacked time-in-range bar
+ * @param ranges - The ranges the figures were computed with, for the labels
+ * @param colors - The clinic's tier colours
+ * @param unit - The unit to label the boundaries in
+ */
+export function timeInRangeTiers(ranges: GlucoseRanges, colors: GlucoseSettings['colors'], unit: GlucoseUnit = 'mg/dL'): TimeInRangeTier[] {
+  return (['veryLow', 'low', 'inRange', 'high', 'veryHigh'] as const).map(key => ({
+    label: tierLabel(key, ranges, unit),
+    key,
+    color: colors[key]
+  }));
+}
+
+/**
+ * GMI distribution buckets in pie chart order
+ * @param gmi - The cut points the distribution was computed with, for the labels
+ * @param colors - The clinic's bucket colours
+ */
+export function gmiBuckets(gmi: GmiThresholds, colors: GlucoseSettings['colors']): { label: string; key: GmiBucket; color: string }[] {
+  return (['optimal', 'suboptimal', 'poor'] as const).map(key => ({
+    label: gmiLabel(key, gmi),
+    key,
+    color: colors[key]
+  }));
+}
@@ -0,0 +1,119 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartConfiguration } from 'chart.js';
+import { TrendSeries } from '../../clinic-reports.service';
+import { GlucoseSettings, STANDARD_GLUCOSE_SETTINGS } from '../../glucose-settings.service';
+import { formatDate, t } from '../../i18n.service';
+import { ChartComponent } from '../chart-component';
+import { ChartTable, trendTable } from '../chart-tables';
+import { keyboardNavigation } from '../chart-plugins/keyboard-navigation.plugin';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+
+/**
+ * Clinic time in range, time below range and average GMI by week or month
+ */
+@Component({
+  selector: 'app-trend-chart',
+  imports: [CommonModule, ChartDataTableComponent],
+  templateUrl: './trend-chart.component.html',
+  styleUrl: './trend-chart.component.css'
+})
+export class TrendChartComponent extends ChartComponent {
+  // Drawn empty until the series has loaded
+  @Input() series: TrendSeries | null = null;
+  @Input() colors: GlucoseSettings['colors'] = STANDARD_GLUCOSE_SETTINGS.colors;
+
+  get title(): string {
+    return t('Trends over the last year');
+  }
+
+  get label(): string {
+    return t('{chart} chart. Use the arrow keys to move between periods.', { chart: this.title });
+  }
+
+  protected override buildTable(): ChartTable | null {
+    return this.series ? trendTable(this.series, periodStart => this.formatLabel(periodStart)) : null;
+  }
+
+  protected config(): ChartConfiguration {
+    const points = this.series?.points ?? [];
+    return {
+      type: 'line',
+      data: {
+        labels: points.map(point => this.formatLabel(point.periodStart)),
+        datasets: [
+          {
+            label: t('In Range (%)'),
+            data: points.map(point => point.inRange),
+            borderColor: this.colors.inRange,
+            backgroundColor: this.colors.inRange,
+            pointStyle: 'circle',
+            yAxisID: 'percent',
+            tension: 0.3
+          },
+          {
+            label: t('Below Range (%)'),
+            data: points.map(point => point.belowRange),
+            borderColor: this.colors.low,
+            backgroundColor: this.colors.low,
+            // Each series has its own point shape and dashes, not just its colour
+            pointStyle: 'triangle',
+            pointRadius: 4,
+            borderDash: [2, 3],
+            yAxisID: 'percent',
+            tension: 0.3
+          },
+          {
+            label: t('Average GMI (%)'),
+            data: points.map(point => point.gmiAverage),
+            borderColor: '#007bff',
+            backgroundColor: '#007bff',
+            pointStyle: 'rectRot',
+            pointRadius: 4,
+            borderDash: [6, 4],
+            yAxisID: 'gmi',
+            tension: 0.3
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index', intersect: false },
+        plugins: {
+          legend: {
+            position: 'bottom',
+            labels: { boxWidth: 12, font: { size: 12 }, usePointStyle: true }
+          }
+        },
+        scales: {
+          x: {
+            grid: { display: false }
+          },
+          percent: {
+            type: 'linear',
+            position: 'left',
+            beginAtZero: true,
+            max: 100,
+            title: { display: true, text: t('Time in range (%)') }
+          },
+          gmi: {
+            type: 'linear',
+            position: 'right',
+            min: 5,
+            max: 10,
+            grid: { drawOnChartArea: false },
+            title: { display: true, text: 'GMI (%)' }
+          }
+        }
+      },
+      plugins: [keyboardNavigation(this.announce)]
+    };
+  }
+
+  private formatLabel(periodStart: string): string {
+    return this.series?.interval === 'monthly'
+      ? formatDate(periodStart, { month: 'short', year: '2-digit', timeZone: 'UTC' })
+      : formatDate(periodStart, { month: '2-digit', day: '2-digit', timeZone: 'UTC' });
+  }
+}
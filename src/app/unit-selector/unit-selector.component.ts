@@ -0,0 +1,17 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GlucoseUnit } from '../../glucose-unit.service';
+import { TranslatePipe } from '../i18n/translate.pipe';
+
+@Component({
+  selector: 'app-unit-selector',
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './unit-selector.component.html',
+  styleUrl: './unit-selector.component.css'
+})
+export class UnitSelectorComponent {
+  @Input() unit: GlucoseUnit = 'mg/dL';
+  @Output() unitChange = new EventEmitter<GlucoseUnit>();
+
+  units: GlucoseUnit[] = ['mg/dL', 'mmol/L'];
+}
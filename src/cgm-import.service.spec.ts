@@ -0,0 +1,111 @@
+import { CgmImportService } from './cgm-import.service';
+
+const DEXCOM_HEADER = 'Index,Timestamp (YYYY-MM-DDThh:mm:ss),Event Type,Event Subtype,Patient Info,Device Info,Source Device ID,' +
+  'Glucose Value (mg/dL),Insulin Value (u),Carb Value (grams),Duration (hh:mm:ss),Glucose Rate of Change (mg/dL/min),' +
+  'Transmitter Time (Long Integer),Transmitter ID';
+
+function dexcomRow(index: number, timestamp: string, eventType: string, glucose: string): string {
+  return `${index},${timestamp},${eventType},,,,iOS G6,${glucose},,,,,,`;
+}
+
+const LIBREVIEW_META = 'Glucose Data,Generated on,01-15-2024 10:00 UTC,Generated by,Clinic';
+const LIBREVIEW_HEADER = 'Device,Serial Number,Device Timestamp,Record Type,Historic Glucose mmol/L,Scan Glucose mmol/L,Notes';
+
+describe('CgmImportService', () => {
+  let service: CgmImportService;
+
+  beforeEach(() => {
+    service = new CgmImportService();
+  });
+
+  it('should detect the export format from its header', () => {
+    expect(service.detectFormat(DEXCOM_HEADER)).toBe('dexcom-clarity');
+    expect(service.detectFormat(`${LIBREVIEW_META}\n${LIBREVIEW_HEADER}`)).toBe('libreview');
+    expect(service.detectFormat('a,b,c')).toBeNull();
+    expect(() => service.parse('a,b,c', { patientId: 'p1' })).toThrowError(/Unrecognised file/);
+  });
+
+  it('should reject a misspelled device time zone before reading any rows', () => {
+    const csv = [DEXCOM_HEADER, dexcomRow(1, '2024-01-05T08:00:00', 'EGV', '120')].join('\r\n');
+
+    expect(() => service.parse(csv, { patientId: 'p1', timeZone: 'Europe/Madird' })).toThrowError(/Unknown time zone "Europe\/Madird"/);
+  });
+
+  it('should import Dexcom readings in the device time zone and report rejected rows', () => {
+    const csv = [
+      DEXCOM_HEADER,
+      '1,,FirstName,,Jane,,,,,,,,,',
+      dexcomRow(2, '2024-01-05T08:00:00', 'EGV', '120'),
+      dexcomRow(3, '2024-01-05T08:05:00', 'EGV', 'Low'),
+      dexcomRow(4, '2024-01-05T08:10:00', 'Insulin', ''),
+      dexcomRow(5, '2024-01-05T08:15:00', 'EGV', 'abc'),
+      dexcomRow(6, 'yesterday', 'EGV', '130'),
+      dexcomRow(7, '2024-01-05T08:00:00', 'EGV', '121')
+    ].join('\r\n');
+    const result = service.parse(csv, { patientId: 'p1', timeZone: 'America/New_York' });
+
+    expect(result.unit).toBe('mg/dL');
+    expect(result.readings).toEqual([
+      { timestamp: '2024-01-05T13:00:00Z', mgdl: 120 },
+      { timestamp: '2024-01-05T13:05:00Z', mgdl: 40 }
+    ]);
+    expect(result.skipped).toBe(2);
+    expect(result.rejected.map(row => [row.line, row.reason])).toEqual([
+      [6, 'Invalid glucose value "abc"'],
+      [7, 'Invalid timestamp "yesterday"'],
+      [8, 'Duplicate reading for the same time']
+    ]);
+  });
+
+  it('should convert LibreView mmol/L readings to mg/dL', () => {
+    const csv = [
+      LIBREVIEW_META,
+      LIBREVIEW_HEADER,
+      'FreeStyle Libre 2,ABC123,15-01-2024 08:00,0,5.5,,',
+      'FreeStyle Libre 2,ABC123,15-01-2024 08:07,1,,"10,0",',
+      'FreeStyle Libre 2,ABC123,15-01-2024 08:10,6,,,"Note, with comma"'
+    ].join('\n');
+    const result = service.parse(csv, { patientId: 'p1', timeZone: 'Europe/Paris' });
+
+    expect(result.format).toBe('libreview');
+    expect(result.unit).toBe('mmol/L');
+    expect(result.readings).toEqual([
+      { timestamp: '2024-01-15T07:00:00Z', mgdl: 99 },
+      { timestamp: '2024-01-15T07:07:00Z', mgdl: 180 }
+    ]);
+    expect(result.skipped).toBe(1);
+  });
+
+  it('should accept LibreView readings up to the Libre limit of 500 mg/dL', () => {
+    const csv = [
+      LIBREVIEW_META,
+      LIBREVIEW_HEADER,
+      'FreeStyle Libre 2,ABC123,15-01-2024 08:00,0,25.0,,',
+      'FreeStyle Libre 2,ABC123,15-01-2024 08:15,0,HI,,',
+      'FreeStyle Libre 2,ABC123,15-01-2024 08:30,0,30.0,,'
+    ].join('\n');
+    const result = service.parse(csv, { patientId: 'p1', timeZone: 'UTC' });
+
+    expect(result.readings.map(reading => reading.mgdl)).toEqual([450, 500]);
+    expect(result.rejected.map(row => row.line)).toEqual([5]);
+  });
+
+  it('should convert local time across a daylight saving change', () => {
+    expect(service.toUtc(2024, 3, 10, 1, 30, 0, 'America/New_York')).toBe('2024-03-10T06:30:00Z');
+    expect(service.toUtc(2024, 3, 10, 3, 30, 0, 'America/New_York')).toBe('2024-03-10T07:30:00Z');
+  });
+
+  it('should not add readings twice when the same file is uploaded again', () => {
+    const csv = [DEXCOM_HEADER, dexcomRow(1, '2024-01-05T08:00:00', 'EGV', '120')].join('\n');
+    const first = service.importFile(csv, { patientId: 'p1', timeZone: 'UTC' });
+    const second = service.importFile(csv, { patientId: 'p1', timeZone: 'UTC' });
+
+    expect(first.newReadings).toBe(1);
+    expect(first.duplicateUpload).toBeFalse();
+    expect(second.newReadings).toBe(0);
+    expect(second.duplicateUpload).toBeTrue();
+    expect(service.getImportedPatients()).toEqual([
+      { patientId: 'p1', timeZone: 'UTC', readings: [{ timestamp: '2024-01-05T08:00:00Z', mgdl: 120 }] }
+    ]);
+  });
+});
@@ -0,0 +1,305 @@
+import { Injectable } from '@angular/core';
+import { GlucoseReading, PatientReadings, isTimeZone, zoneOffset } from './clinic-metrics.service';
+import { t } from './i18n.service';
+
+export type CgmFileFormat = 'dexcom-clarity' | 'libreview';
+
+export interface CgmImportOptions {
+  patientId: string;
+  // IANA time zone the device clock was set to, e.g. 'America/New_York'
+  timeZone?: string;
+  // The patient's clinic and provider; without them the patient is only in all-clinic reports
+  clinicId?: string;
+  providerId?: string;
+}
+
+// A data row that could not be imported
+export interface RejectedRow {
+  line: number;
+  reason: string;
+  raw: string;
+}
+
+export interface CgmImportResult {
+  format: CgmFileFormat;
+  patientId: string;
+  unit: 'mg/dL' | 'mmol/L';
+  timeZone: string;          // Zone the device timestamps were read in
+  readings: GlucoseReading[];
+  rejected: RejectedRow[];
+  skipped: number;           // Rows that are not sensor glucose, e.g. insulin or carbs
+  newReadings: number;       // Readings not seen in earlier uploads
+  duplicateReadings: number; // Readings already imported for this patient
+  duplicateUpload: boolean;  // Every reading in the file was already imported
+}
+
+// Column layout of a supported export
+interface FormatSpec {
+  timestamp: string;
+  glucose: string[];
+  eventType?: { column: string; glucoseValues: string[] };
+  headerLine: number;
+  // The device's reporting limits in mg/dL; "Low"/"High" readings are recorded at these values
+  limits: { low: number; high: number };
+}
+
+// mg/dL per mmol/L, from the molar mass of glucose
+export const MGDL_PER_MMOLL = 18.0182;
+
+// Glucose scale of the charts and range settings, in mg/dL
+export const SENSOR_LIMITS = { low: 40, high: 400 };
+
+const FORMATS: { [format in CgmFileFormat]: FormatSpec } = {
+  'dexcom-clarity': {
+    timestamp: 'Timestamp (YYYY-MM-DDThh:mm:ss)',
+    glucose: ['Glucose Value'],
+    eventType: { column: 'Event Type', glucoseValues: ['EGV'] },
+    headerLine: 0,
+    limits: { low: 40, high: 400 }
+  },
+  'libreview': {
+    timestamp: 'Device Timestamp',
+    // Record type 0 holds the 15 minute historic readings, 1 holds scans
+    glucose: ['Historic Glucose', 'Scan Glucose'],
+    eventType: { column: 'Record Type', glucoseValues: ['0', '1'] },
+    headerLine: 1,
+    limits: { low: 40, high: 500 }
+  }
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CgmImportService {
+
+  // Readings imported this session, by patient
+  private imported = new Map<string, Map<string, number>>();
+
+  // Time zone, clinic and provider of each patient's latest upload
+  private details = new Map<string, Pick<PatientReadings, 'timeZone' | 'clinicId' | 'providerId'>>();
+
+  /**
+   * Detect which device export a CSV file came from
+   * @param text - The file contents
+   * @returns The format, or null when it is not recognised
+   */
+  detectFormat(text: string): CgmFileFormat | null {
+    const lines = this.splitLines(text).slice(0, 2);
+    if (lines[0]?.includes(FORMATS['dexcom-clarity'].timestamp)) {
+      return 'dexcom-clarity';
+    }
+    if (lines[1]?.includes(FORMATS['libreview'].timestamp)) {
+      return 'libreview';
+    }
+    return null;
+  }
+
+  /**
+   * Parse a Dexcom Clarity or LibreView CSV export into UTC readings in mg/dL.
+   * Nothing is stored; see importFile.
+   * @param text - The file contents
+   * @param options - Patient and device time zone
+   */
+  parse(text: string, options: CgmImportOptions): CgmImportResult {
+    const format = this.detectFormat(text);
+    if (!format) {
+      throw new Error(t('Unrecognised file: expected a Dexcom Clarity or LibreView CSV export'));
+    }
+
+    const spec = FORMATS[format];
+    const lines = this.splitLines(text);
+    const header = this.parseCsvLine(lines[spec.headerLine]);
+    const timestampColumn = header.indexOf(spec.timestamp);
+    const eventColumn = spec.eventType ? header.indexOf(spec.eventType.column) : -1;
+    const glucoseColumns = spec.glucose.map(name => header.findIndex(column => column.startsWith(name)));
+    const unit = header[glucoseColumns[0]]?.includes('mmol/L') ? 'mmol/L' : 'mg/dL';
+    const timeZone = options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!isTimeZone(timeZone)) {
+      throw new Error(t('Unknown time zone "{timeZone}": use an IANA name such as Europe/Madrid', { timeZone }));
+    }
+
+    const readings: GlucoseReading[] = [];
+    const rejected: RejectedRow[] = [];
+    const seen = new Set<string>();
+    let skipped = 0;
+
+    lines.slice(spec.headerLine + 1).forEach((raw, index) => {
+      const line = spec.headerLine + index + 2;
+      if (!raw.trim()) return;
+
+      const cells = this.parseCsvLine(raw);
+      if (spec.eventType && !spec.eventType.glucoseValues.includes(cells[eventColumn])) {
+        skipped++;
+        return;
+      }
+
+      const timestamp = this.parseTimestamp(cells[timestampColumn] ?? '', timeZone);
+      if (!timestamp) {
+        rejected.push({ line, reason: t('Invalid timestamp "{value}"', { value: cells[timestampColumn] ?? '' }), raw });
+        return;
+      }
+
+      const value = glucoseColumns.map(column => cells[column]?.trim()).find(cell => !!cell);
+      const mgdl = this.parseGlucose(value ?? '', unit, spec.limits);
+      if (mgdl === null) {
+        rejected.push({ line, reason: value ? t('Invalid glucose value "{value}"', { value }) : t('Missing glucose value'), raw });
+        return;
+      }
+
+      if (seen.has(timestamp)) {
+        rejected.push({ line, reason: t('Duplicate reading for the same time'), raw });
+        return;
+      }
+      seen.add(timestamp);
+      readings.push({ timestamp, mgdl });
+    });
+
+    readings.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const existing = this.imported.get(options.patientId);
+    const duplicateReadings = existing ? readings.filter(reading => existing.has(reading.timestamp)).length : 0;
+
+    return {
+      format,
+      patientId: options.patientId,
+      unit,
+      timeZone,
+      readings,
+      rejected,
+      skipped,
+      newReadings: readings.length - duplicateReadings,
+      duplicateReadings,
+      duplicateUpload: readings.length > 0 && duplicateReadings === readings.length
+    };
+  }
+
+  /**
+   * Parse a device export and add its readings to the patient's imported data.
+   * Readings that were already imported are not added twice.
+   * @param text - The file contents
+   * @param options - Patient, device time zone, clinic and provider
+   */
+  importFile(text: string, options: CgmImportOptions): CgmImportResult {
+    const result = this.parse(text, options);
+    const readings = this.imported.get(options.patientId) ?? new Map<string, number>();
+    result.readings.forEach(reading => readings.set(reading.timestamp, reading.mgdl));
+    this.imported.set(options.patientId, readings);
+    this.details.set(options.patientId, {
+      timeZone: result.timeZone,
+      ...(options.clinicId && { clinicId: options.clinicId }),
+      ...(options.clinicId && options.providerId && { providerId: options.providerId })
+    });
+    return result;
+  }
+
+  /**
+   * All readings imported this session, one entry per patient
+   */
+  getImportedPatients(): PatientReadings[] {
+    return Array.from(this.imported.entries()).map(([patientId, readings]) => ({
+      patientId,
+      ...this.details.get(patientId),
+      readings: Array.from(readings.entries())
+        .map(([timestamp, mgdl]) => ({ timestamp, mgdl }))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    }));
+  }
+
+  /**
+   * Convert a local wall-clock time in a time zone to a UTC ISO timestamp
+   */
+  toUtc(year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string): string {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+    // The zone offset can change across DST, so correct against the offset at the first guess
+    let utc = wallClock - zoneOffset(wallClock, timeZone);
+    utc = wallClock - zoneOffset(utc, timeZone);
+    return new Date(utc).toISOString().replace('.000Z', 'Z');
+  }
+
+  private parseTimestamp(value: string, timeZone: string): string | null {
+    const text = value.trim();
+
+    // Explicit offsets are trusted as-is
+    if (/(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? null : date.toISOString().replace('.000Z', 'Z');
+    }
+
+    // Dexcom: 2024-01-05T08:15:00 or 2024-01-05 08:15:00
+    let match = text.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+    if (match) {
+      const [, y, mo, d, h, mi, s] = match;
+      return this.validTime(+y, +mo, +d, +h, +mi, +(s ?? 0), timeZone);
+    }
+
+    // LibreView: DD-MM-YYYY HH:MM, or MM-DD-YYYY hh:mm AM/PM in US exports
+    match = text.match(/^(\d{2})[-/](\d{2})[-/](\d{4}) (\d{1,2}):(\d{2})(?::(\d{2}))?(?: ?(AM|PM))?$/i);
+    if (match) {
+      const [, first, second, y, h, mi, s, meridiem] = match;
+      const [d, mo] = meridiem ? [second, first] : [first, second];
+      const hour = meridiem ? (+h % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0) : +h;
+      return this.validTime(+y, +mo, +d, hour, +mi, +(s ?? 0), timeZone);
+    }
+
+    return null;
+  }
+
+  private validTime(year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string): string | null {
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) {
+      return null;
+    }
+    return this.toUtc(year, month, day, hour, minute, second, timeZone);
+  }
+
+  private parseGlucose(value: string, unit: 'mg/dL' | 'mmol/L', limits: FormatSpec['limits']): number | null {
+    const text = value.trim().toLowerCase();
+    if (text === 'low' || text === 'lo') {
+      return limits.low;
+    }
+    if (text === 'high' || text === 'hi') {
+      return limits.high;
+    }
+
+    // Some locales export mmol/L with a decimal comma
+    const number = Number(text.replace(',', '.'));
+    if (!text || isNaN(number)) {
+      return null;
+    }
+
+    const mgdl = unit === 'mmol/L' ? Math.round(number * MGDL_PER_MMOLL) : Math.round(number);
+    return mgdl >= limits.low && mgdl <= limits.high ? mgdl : null;
+  }
+
+  private splitLines(text: string): string[] {
+    return text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  }
+
+  // Split one CSV line, honouring double-quoted cells
+  private parseCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        cells.push(cell);
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell);
+    return cells.map(value => value.trim());
+  }
+}
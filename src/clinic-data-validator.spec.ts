@@ -0,0 +1,106 @@
+import { ClinicData } from './clinic-reports.service';
+import { validateClinicData, validateProviderSummaries } from './clinic-data-validator';
+import { currentLocale, useLocale } from './i18n.service';
+
+describe('validateClinicData', () => {
+  const valid: ClinicData = {
+    patientCount: 120,
+    reportingDays: 30,
+    dateRange: '2024-01-01/2024-01-31',
+    lastUpdated: '2024-01-31T15:00:00Z',
+    timeInRange: { inRange: 82, aboveRange: 16, belowRange: 2, veryLow: 1, low: 1, high: 15, veryHigh: 1 },
+    gmi: { average: 6.7, distribution: { optimal: 72, suboptimal: 23, poor: 6 } }
+  };
+
+  it('should accept a well-formed report, allowing for rounding', () => {
+    expect(validateClinicData(valid)).toEqual([]);
+  });
+
+  it('should accept an all-zero report without patients', () => {
+    const empty: ClinicData = {
+      ...valid,
+      patientCount: 0,
+      timeInRange: { inRange: 0, aboveRange: 0, belowRange: 0, veryLow: 0, low: 0, high: 0, veryHigh: 0 },
+      gmi: { average: 0, distribution: { optimal: 0, suboptimal: 0, poor: 0 } }
+    };
+    expect(validateClinicData(empty)).toEqual([]);
+  });
+
+  it('should reject percentages that do not add up', () => {
+    const problems = validateClinicData({
+      ...valid,
+      timeInRange: { ...valid.timeInRange, inRange: 70, veryHigh: 5 }
+    });
+    expect(problems).toEqual([
+      'timeInRange tiers add up to 88% instead of 100%',
+      'high + veryHigh (aboveRange) add up to 20% instead of 16%'
+    ]);
+  });
+
+  it('should reject out-of-range values and implausible GMI', () => {
+    const problems = validateClinicData({
+      ...valid,
+      patientCount: -1,
+      timeInRange: { ...valid.timeInRange, low: 120 },
+      gmi: { ...valid.gmi, average: 25 }
+    });
+    expect(problems).toContain('patientCount must be a non-negative whole number');
+    expect(problems).toContain('timeInRange.low must be a percentage between 0 and 100');
+    expect(problems).toContain('gmi.average 25 is outside the plausible 5-12% range');
+  });
+
+  it('should reject dates that do not parse', () => {
+    const problems = validateClinicData({ ...valid, dateRange: '2024-02-30/2024-03-01', lastUpdated: 'soon' });
+    expect(problems).toEqual([
+      'dateRange "2024-02-30/2024-03-01" is not a valid YYYY-MM-DD/YYYY-MM-DD range',
+      'lastUpdated "soon" is not an ISO 8601 timestamp'
+    ]);
+  });
+
+  it('should reject US formatted dates', () => {
+    const problems = validateClinicData({ ...valid, dateRange: '01/01/2024 - 01/31/2024', lastUpdated: '01/31/2024, 3:00 PM' });
+    expect(problems.length).toBe(2);
+  });
+
+  it('should reject payloads that are not clinic data', () => {
+    expect(validateClinicData(null)).toEqual(['Payload is not an object']);
+    expect(validateClinicData({ patientCount: 3 })).toContain('timeInRange is missing');
+  });
+
+  it('should check that data quality accounts for every enrolled patient', () => {
+    const dataQuality = {
+      enrolledCount: 125,
+      excluded: { noData: 2, insufficientData: 3 },
+      sensorWear: { average: 84, distribution: { from0: 2, from50: 10, from70: 60, from90: 53 } }
+    };
+    expect(validateClinicData({ ...valid, dataQuality })).toEqual([]);
+
+    expect(validateClinicData({ ...valid, dataQuality: { ...dataQuality, enrolledCount: 120 } })).toEqual([
+      'dataQuality.enrolledCount 120 does not equal patientCount plus the excluded patients',
+      'dataQuality.sensorWear.distribution counts 125 patients but only 120 are enrolled'
+    ]);
+    expect(validateClinicData({ ...valid, dataQuality: { ...dataQuality, excluded: { noData: -1, insufficientData: 3 } } })).toEqual([
+      'dataQuality.excluded.noData must be a non-negative whole number'
+    ]);
+  });
+
+  it('should require every provider report to name its clinic and provider', () => {
+    expect(validateProviderSummaries([{ ...valid, clinicId: 'c1', providerId: 'd1' }])).toEqual([]);
+    expect(validateProviderSummaries([{ ...valid, clinicId: 'c1', providerId: 'd1' }, valid])).toEqual([
+      'Report 2: clinicId and providerId are required'
+    ]);
+    expect(validateProviderSummaries(valid)).toEqual(['Payload is not a list of provider reports']);
+  });
+
+  it('should describe problems in the current locale', () => {
+    const initial = currentLocale();
+    useLocale('es');
+    try {
+      expect(validateProviderSummaries([{ ...valid, patientCount: -1, clinicId: 'c1', providerId: 'd1' }])).toEqual([
+        'Informe 1: patientCount debe ser un número entero no negativo'
+      ]);
+    } finally {
+      useLocale(initial);
+    }
+  });
+});
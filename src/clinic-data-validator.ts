@@ -0,0 +1,183 @@
+import { ClinicData } from './clinic-reports.service';
+import { t } from './i18n.service';
+
+// Rounded percentages may drift this far from their expected total
+const SUM_TOLERANCE = 1;
+
+// Date and time with a UTC offset, e.g. 2024-01-06T15:00:00Z
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Plausible clinic-average GMI (%)
+const GMI_LIMITS = { min: 5, max: 12 };
+
+export type ClinicDataErrorKind = 'invalid' | 'load-failed';
+
+// Why a clinic report could not be shown
+export class ClinicDataError extends Error {
+  constructor(
+    readonly kind: ClinicDataErrorKind,
+    message: string,
+    readonly problems: string[] = []
+  ) {
+    super(message);
+    this.name = 'ClinicDataError';
+  }
+}
+
+/**
+ * Check an untrusted payload against the ClinicData shape
+ * @param data - The parsed JSON
+ * @returns Human readable problems in the current locale; empty when the payload is valid
+ */
+export function validateClinicData(data: unknown): string[] {
+  if (!isObject(data)) {
+    return [t('Payload is not an object')];
+  }
+
+  const problems: string[] = [];
+  const { patientCount, reportingDays, dateRange, lastUpdated, timeInRange, gmi, dataQuality } = data;
+
+  if (typeof patientCount !== 'number' || !Number.isInteger(patientCount) || patientCount < 0) {
+    problems.push(t('{field} must be a non-negative whole number', { field: 'patientCount' }));
+  }
+  if (typeof reportingDays !== 'number' || !Number.isInteger(reportingDays) || reportingDays < 1) {
+    problems.push(t('{field} must be a positive whole number', { field: 'reportingDays' }));
+  }
+  if (typeof dateRange !== 'string' || !parseDateRange(dateRange)) {
+    problems.push(t('dateRange "{value}" is not a valid YYYY-MM-DD/YYYY-MM-DD range', { value: String(dateRange) }));
+  }
+  if (typeof lastUpdated !== 'string' || !ISO_TIMESTAMP.test(lastUpdated) || isNaN(Date.parse(lastUpdated))) {
+    problems.push(t('lastUpdated "{value}" is not an ISO 8601 timestamp', { value: String(lastUpdated) }));
+  }
+
+  // Without patients every figure is legitimately 0
+  const empty = patientCount === 0;
+
+  const tir = percentages(timeInRange, ['inRange', 'aboveRange', 'belowRange', 'veryLow', 'low', 'high', 'veryHigh'], 'timeInRange', problems);
+  if (tir && !empty) {
+    checkSum(tir['inRange'] + tir['aboveRange'] + tir['belowRange'], 100, 'timeInRange tiers', problems);
+    checkSum(tir['veryLow'] + tir['low'], tir['belowRange'], 'veryLow + low (belowRange)', problems);
+    checkSum(tir['high'] + tir['veryHigh'], tir['aboveRange'], 'high + veryHigh (aboveRange)', problems);
+  }
+
+  if (!isObject(gmi)) {
+    problems.push(t('{field} is missing', { field: 'gmi' }));
+  } else {
+    const average = gmi['average'];
+    if (typeof average !== 'number' || !(empty ? average === 0 : average >= GMI_LIMITS.min && average <= GMI_LIMITS.max)) {
+      problems.push(t('gmi.average {average} is outside the plausible {min}-{max}% range', { average: String(average), ...GMI_LIMITS }));
+    }
+    const distribution = percentages(gmi['distribution'], ['optimal', 'suboptimal', 'poor'], 'gmi.distribution', problems);
+    if (distribution && !empty) {
+      checkSum(distribution['optimal'] + distribution['suboptimal'] + distribution['poor'], 100, 'gmi.distribution', problems);
+    }
+  }
+
+  if (dataQuality !== undefined) {
+    checkDataQuality(dataQuality, patientCount, problems);
+  }
+
+  return problems;
+}
+
+/**
+ * Check an untrusted list of per-provider reports
+ * @param data - The parsed JSON
+ * @returns Human readable problems, prefixed with the report they belong to
+ */
+export function validateProviderSummaries(data: unknown): string[] {
+  if (!Array.isArray(data)) {
+    return [t('Payload is not a list of provider reports')];
+  }
+
+  return data.flatMap((summary, index) => {
+    const problems = validateClinicData(summary);
+    if (isObject(summary) && (typeof summary['clinicId'] !== 'string' || typeof summary['providerId'] !== 'string')) {
+      problems.push(t('clinicId and providerId are required'));
+    }
+    return problems.map(problem => t('Report {number}: {problem}', { number: index + 1, problem }));
+  });
+}
+
+// Both ends of a "YYYY-MM-DD/YYYY-MM-DD" range, or null
+export function parseDateRange(range: string): [Date, Date] | null {
+  const match = range.match(/^(\d{4})-(\d{2})-(\d{2})\/(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [, y1, m1, d1, y2, m2, d2] = match.map(Number);
+  const from = new Date(Date.UTC(y1, m1 - 1, d1));
+  const to = new Date(Date.UTC(y2, m2 - 1, d2));
+  const exists = (date: Date, month: number, day: number) => date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+
+  return exists(from, m1, d1) && exists(to, m2, d2) && from <= to ? [from, to] : null;
+}
+
+// The named fields as 0-100 percentages, or null after recording what is wrong
+function percentages(value: unknown, keys: string[], name: string, problems: string[]): Record<string, number> | null {
+  if (!isObject(value)) {
+    problems.push(t('{field} is missing', { field: name }));
+    return null;
+  }
+
+  const invalid = keys.filter(key => {
+    const field = value[key];
+    return typeof field !== 'number' || isNaN(field) || field < 0 || field > 100;
+  });
+  invalid.forEach(key => problems.push(t('{field} must be a percentage between 0 and 100', { field: `${name}.${key}` })));
+  return invalid.length ? null : value as Record<string, number>;
+}
+
+// Enrolled patients are either included or excluded for a reason, and each has at most one sensor wear band
+function checkDataQuality(dataQuality: unknown, patientCount: unknown, problems: string[]) {
+  if (!isObject(dataQuality)) {
+    problems.push(t('{field} is not an object', { field: 'dataQuality' }));
+    return;
+  }
+
+  const { enrolledCount, excluded, sensorWear } = dataQuality;
+  const counts = wholeNumbers(excluded, ['noData', 'insufficientData'], 'dataQuality.excluded', problems);
+  if (!isWholeNumber(enrolledCount)) {
+    problems.push(t('{field} must be a non-negative whole number', { field: 'dataQuality.enrolledCount' }));
+  } else if (counts && typeof patientCount === 'number' && patientCount + counts['noData'] + counts['insufficientData'] !== enrolledCount) {
+    problems.push(t('dataQuality.enrolledCount {count} does not equal patientCount plus the excluded patients', { count: enrolledCount }));
+  }
+
+  if (sensorWear !== undefined) {
+    if (!isObject(sensorWear)) {
+      problems.push(t('{field} is not an object', { field: 'dataQuality.sensorWear' }));
+      return;
+    }
+    percentages(sensorWear, ['average'], 'dataQuality.sensorWear', problems);
+    const distribution = wholeNumbers(sensorWear['distribution'], ['from0', 'from50', 'from70', 'from90'], 'dataQuality.sensorWear.distribution', problems);
+    const measured = distribution ? Object.values(distribution).reduce((a, b) => a + b, 0) : 0;
+    if (isWholeNumber(enrolledCount) && measured > enrolledCount) {
+      problems.push(t('dataQuality.sensorWear.distribution counts {measured} patients but only {enrolled} are enrolled', { measured, enrolled: enrolledCount }));
+    }
+  }
+}
+
+// The named fields as patient counts, or null after recording what is wrong
+function wholeNumbers(value: unknown, keys: string[], name: string, problems: string[]): Record<string, number> | null {
+  if (!isObject(value)) {
+    problems.push(t('{field} is missing', { field: name }));
+    return null;
+  }
+
+  const invalid = keys.filter(key => !isWholeNumber(value[key]));
+  invalid.forEach(key => problems.push(t('{field} must be a non-negative whole number', { field: `${name}.${key}` })));
+  return invalid.length ? null : value as Record<string, number>;
+}
+
+function isWholeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function checkSum(actual: number, expected: number, label: string, problems: string[]) {
+  if (Math.abs(actual - expected) > SUM_TOLERANCE) {
+    problems.push(t('{label} add up to {actual}% instead of {expected}%', { label, actual, expected }));
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
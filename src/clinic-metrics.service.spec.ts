@@ -0,0 +1,205 @@
+import { AGP_BIN_MINUTES, ClinicMetricsService, GlucoseReading, PatientReadings } from './clinic-metrics.service';
+import { GLUCOSE_SETTINGS_PRESETS } from './glucose-settings.service';
+
+function dailyReadings(days: number, values: number[]): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let day = 0; day < days; day++) {
+    values.forEach((mgdl, index) => {
+      const timestamp = new Date(Date.UTC(2024, 0, 1 + day, index)).toISOString();
+      readings.push({ timestamp, mgdl });
+    });
+  }
+  return readings;
+}
+
+describe('ClinicMetricsService', () => {
+  const service = new ClinicMetricsService();
+  const window = { from: new Date('2024-01-01T00:00:00Z'), to: new Date('2024-01-30T00:00:00Z') };
+
+  it('should calculate GMI with the standard formula', () => {
+    expect(service.calculateGmi(154)).toBeCloseTo(6.99, 2);
+  });
+
+  it('should calculate time in range per patient', () => {
+    const patient: PatientReadings = { patientId: 'p1', readings: dailyReadings(12, [60, 100, 120, 200]) };
+    const metrics = service.calculatePatientMetrics(patient);
+
+    expect(metrics.daysWithData).toBe(12);
+    expect(metrics.timeInRange.belowRange).toBe(25);
+    expect(metrics.timeInRange.inRange).toBe(50);
+    expect(metrics.timeInRange.aboveRange).toBe(25);
+    expect(metrics.meanGlucose).toBe(120);
+  });
+
+  it('should split readings into the five consensus tiers', () => {
+    const patient: PatientReadings = { patientId: 'p1', readings: dailyReadings(10, [50, 60, 120, 200, 300]) };
+    const tir = service.calculatePatientMetrics(patient).timeInRange;
+
+    expect(tir).toEqual({
+      inRange: 20, aboveRange: 40, belowRange: 40, veryLow: 20, low: 20, high: 20, veryHigh: 20
+    });
+  });
+
+  it('should compute tiers, GMI buckets and labels with a clinic\'s own thresholds', () => {
+    const pregnancy = GLUCOSE_SETTINGS_PRESETS[1];
+    const patients: PatientReadings[] = [{ patientId: 'p1', readings: dailyReadings(10, [60, 130, 140, 200]) }];
+    const data = service.buildClinicData(patients, window, pregnancy);
+
+    expect(data.thresholds).toEqual({ ranges: pregnancy.ranges, gmi: pregnancy.gmi });
+    expect(data.timeInRange.low).toBe(25);
+    expect(data.timeInRange.inRange).toBe(50);
+    expect(data.timeInRange.high).toBe(25);
+    expect(data.gmi.distribution.suboptimal).toBe(100);
+    expect(service.evaluateConsensusTargets(data)[0].label).toBe('Time in range 63-140');
+    expect(service.compare(data, data)[2].label).toBe('GMI ≤6%');
+  });
+
+  it('should leave standard reports unlabelled', () => {
+    const patients: PatientReadings[] = [{ patientId: 'p1', readings: dailyReadings(10, [100]) }];
+
+    expect(service.buildClinicData(patients, window).thresholds).toBeUndefined();
+  });
+
+  it('should evaluate the consensus targets', () => {
+    const patients: PatientReadings[] = [{ patientId: 'p1', readings: dailyReadings(10, [100, 120, 140, 200]) }];
+    const results = service.evaluateConsensusTargets(service.buildClinicData(patients, window));
+
+    expect(results.map(r => r.met)).toEqual([true, true, true, false, true]);
+  });
+
+  it('should exclude patients with fewer than 10 days of data', () => {
+    const patients: PatientReadings[] = [
+      { patientId: 'p1', readings: dailyReadings(12, [100, 120]) },
+      { patientId: 'p2', readings: dailyReadings(9, [250, 300]) }
+    ];
+    const data = service.buildClinicData(patients, window);
+
+    expect(data.patientCount).toBe(1);
+    expect(data.timeInRange.inRange).toBe(100);
+    expect(data.gmi.distribution.optimal).toBe(100);
+    expect(data.reportingDays).toBe(30);
+    expect(data.dateRange).toBe('2024-01-01/2024-01-30');
+  });
+
+  it('should account for excluded patients and sensor wear', () => {
+    const hourly = Array(24).fill(120);
+    const patients: PatientReadings[] = [
+      { patientId: 'p1', readings: dailyReadings(27, hourly) },
+      { patientId: 'p2', readings: dailyReadings(21, hourly) },
+      { patientId: 'p3', readings: dailyReadings(9, hourly) },
+      { patientId: 'p4', readings: [{ timestamp: '2024-02-10T08:00:00Z', mgdl: 120 }] }
+    ];
+    const data = service.buildClinicData(patients, window);
+
+    expect(data.patientCount).toBe(2);
+    expect(data.dataQuality).toEqual({
+      enrolledCount: 4,
+      excluded: { noData: 1, insufficientData: 1 },
+      sensorWear: { average: 48, distribution: { from0: 2, from50: 0, from70: 1, from90: 1 } }
+    });
+  });
+
+  it('should bucket patients by GMI', () => {
+    const patients: PatientReadings[] = [
+      { patientId: 'p1', readings: dailyReadings(10, [120]) },
+      { patientId: 'p2', readings: dailyReadings(10, [170]) },
+      { patientId: 'p3', readings: dailyReadings(10, [220]) },
+      { patientId: 'p4', readings: dailyReadings(10, [130]) }
+    ];
+    const data = service.buildClinicData(patients, window);
+
+    expect(data.gmi.distribution).toEqual({ optimal: 50, suboptimal: 25, poor: 25 });
+  });
+
+  it('should describe the reporting window from its dates', () => {
+    expect(service.daysInWindow(window)).toBe(30);
+    expect(service.describeWindow({ from: new Date('2024-02-01'), to: new Date('2024-02-07') })).toEqual({
+      reportingDays: 7,
+      dateRange: '2024-02-01/2024-02-07'
+    });
+  });
+
+  it('should compare two reports and flag improvements', () => {
+    const baseline = service.buildClinicData([{ patientId: 'p1', readings: dailyReadings(10, [170]) }], window);
+    const current = service.buildClinicData([{ patientId: 'p1', readings: dailyReadings(10, [120]) }], window);
+    const deltas = service.compare(current, baseline);
+
+    const gmi = deltas.find(d => d.label === 'Average GMI')!;
+    expect(gmi.direction).toBe('down');
+    expect(gmi.improved).toBeTrue();
+    expect(gmi.delta).toBe(-1.2);
+
+    const tir = deltas.find(d => d.label === 'Time in range')!;
+    expect(tir.direction).toBe('same');
+    expect(tir.improved).toBeNull();
+  });
+
+  it('should place patients into drill-down buckets', () => {
+    const patient = service.calculatePatientMetrics({ patientId: 'p1', readings: dailyReadings(10, [50, 120, 140, 215, 300]) });
+
+    expect(service.isInBucket(patient, 'veryLow')).toBeTrue();
+    expect(service.isInBucket(patient, 'veryHigh')).toBeTrue();
+    expect(service.isInBucket(patient, 'inRange')).toBeFalse();
+    expect(service.isInBucket(patient, 'suboptimal')).toBeTrue();
+    expect(service.isInBucket(patient, 'poor')).toBeFalse();
+  });
+
+  it('should build the AGP percentile profile and variability', () => {
+    // Hourly readings: 100 mg/dL on even days, 200 mg/dL on odd days
+    const readings = dailyReadings(10, Array(24).fill(100)).map((reading, i) => ({
+      ...reading,
+      mgdl: Math.floor(i / 24) % 2 ? 200 : 100
+    }));
+    const report = service.calculateAgpReport({ patientId: 'p1', readings }, { from: new Date('2024-01-01'), to: new Date('2024-01-10') });
+
+    expect(report.dailyTraces.length).toBe(10);
+    expect(report.profile[0]).toEqual({ minuteOfDay: 0, p5: 100, p25: 100, p50: 150, p75: 200, p95: 200 });
+    expect(report.profile[1].p50).toBeNull();
+    expect(report.coefficientOfVariation).toBeCloseTo(33.3, 1);
+    expect(report.sensorWear).toBe(100);
+  });
+
+  it('should bin the AGP and daily traces in the patient\'s time zone', () => {
+    // 03:00 UTC on 10 January is 22:00 on 9 January in New York
+    const readings = [{ timestamp: '2024-01-10T03:00:00Z', mgdl: 140 }];
+    const report = service.calculateAgpReport(
+      { patientId: 'p1', timeZone: 'America/New_York', readings },
+      { from: new Date('2024-01-01'), to: new Date('2024-01-10') }
+    );
+
+    expect(report.profile[22 * 60 / AGP_BIN_MINUTES].p50).toBe(140);
+    expect(report.dailyTraces).toEqual([{ date: '2024-01-09', points: [{ minuteOfDay: 22 * 60, mgdl: 140 }] }]);
+  });
+
+  it('should roll reports up weighted by patient count', () => {
+    const small = service.buildClinicData([{ patientId: 'p1', readings: dailyReadings(10, [120]) }], window);
+    const large = service.buildClinicData([
+      { patientId: 'p2', readings: dailyReadings(10, [50, 120, 120, 120]) },
+      { patientId: 'p3', readings: dailyReadings(10, [50, 120, 120, 120]) },
+      { patientId: 'p4', readings: dailyReadings(10, [50, 120, 120, 120]) }
+    ], window);
+    const rolledUp = service.rollUp([{ ...small, lastUpdated: '2024-01-02T09:00:00Z' }, { ...large, lastUpdated: '2024-01-03T09:00:00Z' }], window);
+
+    expect(rolledUp.patientCount).toBe(4);
+    expect(rolledUp.timeInRange.inRange).toBe(81);
+    expect(rolledUp.timeInRange.veryLow).toBe(19);
+    expect(rolledUp.lastUpdated).toBe('2024-01-03T09:00:00Z');
+    expect(rolledUp.dateRange).toBe('2024-01-01/2024-01-30');
+  });
+
+  it('should add up data quality across reports, and leave it out when a report lacks it', () => {
+    const first = service.buildClinicData([
+      { patientId: 'p1', readings: dailyReadings(27, Array(24).fill(120)) },
+      { patientId: 'p2', readings: dailyReadings(9, Array(24).fill(120)) }
+    ], window);
+    const second = service.buildClinicData([{ patientId: 'p3', readings: dailyReadings(30, Array(24).fill(120)) }], window);
+    const rolledUp = service.rollUp([first, second], window);
+
+    expect(rolledUp.dataQuality).toEqual({
+      enrolledCount: 3,
+      excluded: { noData: 0, insufficientData: 1 },
+      sensorWear: { average: 73, distribution: { from0: 1, from50: 0, from70: 0, from90: 2 } }
+    });
+    expect(service.rollUp([first, { ...second, dataQuality: undefined }], window).dataQuality).toBeUndefined();
+  });
+});
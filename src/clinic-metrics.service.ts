@@ -0,0 +1,611 @@
+import { Injectable } from '@angular/core';
+import { ClinicData, DataQuality, PatientAttributes, PatientBucket, PatientSummary, SensorWearDistribution, TimeInRange } from './clinic-reports.service';
+import {
+  GlucoseRanges,
+  GmiThresholds,
+  ReportThresholds,
+  STANDARD_GLUCOSE_SETTINGS,
+  gmiLabel,
+  sameThresholds,
+  thresholdsOf
+} from './glucose-settings.service';
+import { GlucoseUnit, formatGlucose } from './glucose-unit.service';
+import { t } from './i18n.service';
+
+// A single sensor glucose (SG) reading
+export interface GlucoseReading {
+  timestamp: string;
+  mgdl: number;
+}
+
+// Raw sensor readings for one patient
+export interface PatientReadings {
+  patientId: string;
+  clinicId?: string;
+  providerId?: string;
+  attributes?: Partial<PatientAttributes>;
+  timeZone?: string; // IANA zone of the patient's device, e.g. 'Europe/Paris'; UTC when absent
+  readings: GlucoseReading[];
+}
+
+// Metrics derived from one patient's readings
+export interface PatientMetrics extends PatientSummary {
+  readingCount: number;
+  meanGlucose: number;
+}
+
+// One slot of the 24-hour Ambulatory Glucose Profile; null where no readings fell in the slot
+export interface AgpBin {
+  minuteOfDay: number;
+  p5: number | null;
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p95: number | null;
+}
+
+// One day's readings plotted against time of day
+export interface DailyTrace {
+  date: string;
+  points: { minuteOfDay: number; mgdl: number }[];
+}
+
+// Everything shown on an individual patient's AGP report
+export interface AgpReport {
+  metrics: PatientMetrics;
+  standardDeviation: number;
+  coefficientOfVariation: number;
+  sensorWear: number;
+  profile: AgpBin[];
+  dailyTraces: DailyTrace[];
+}
+
+export interface ReportingWindow {
+  from: Date;
+  to: Date;
+}
+
+// Change in one headline metric between two reports
+export interface MetricDelta {
+  label: string;
+  unit: string;
+  current: number;
+  baseline: number;
+  delta: number;
+  direction: 'up' | 'down' | 'same';
+  improved: boolean | null;
+}
+
+// Only patients with at least this many days of SG data are included
+export const MIN_DAYS_OF_DATA = 10;
+
+// Cohorts smaller than this are not reported, so patients cannot be identified
+export const MIN_COHORT_SIZE = 10;
+
+// Sensor wear bands of the data quality distribution, with their lower bound (%)
+export const SENSOR_WEAR_BANDS: { key: keyof SensorWearDistribution; min: number }[] = [
+  { key: 'from0', min: 0 },
+  { key: 'from50', min: 50 },
+  { key: 'from70', min: 70 },
+  { key: 'from90', min: 90 }
+];
+
+// International Consensus time-in-range goals for most adults with diabetes
+export interface ConsensusTarget {
+  // Formats a boundary in mg/dL in the display unit
+  label: (ranges: GlucoseRanges, f: (mgdl: number) => string) => string;
+  goal: string;
+  pick: (tir: TimeInRange) => number;
+  passes: (value: number) => boolean;
+}
+
+export const CONSENSUS_TARGETS: ConsensusTarget[] = [
+  { label: (r, f) => t('Time in range {from}-{to}', { from: f(r.low), to: f(r.high) }), goal: '>70%', pick: tir => tir.inRange, passes: value => value > 70 },
+  { label: (r, f) => t('Below {value}', { value: f(r.low) }), goal: '<4%', pick: tir => tir.veryLow + tir.low, passes: value => value < 4 },
+  { label: (r, f) => t('Below {value}', { value: f(r.veryLow) }), goal: '<1%', pick: tir => tir.veryLow, passes: value => value < 1 },
+  { label: (r, f) => t('Above {value}', { value: f(r.high) }), goal: '<25%', pick: tir => tir.high + tir.veryHigh, passes: value => value < 25 },
+  { label: (r, f) => t('Above {value}', { value: f(r.veryHigh) }), goal: '<5%', pick: tir => tir.veryHigh, passes: value => value < 5 }
+];
+
+// The consensus goal each TIR tier is judged against when drilling down
+const TIER_TARGETS: Record<keyof TimeInRange, ConsensusTarget> = {
+  inRange: CONSENSUS_TARGETS[0],
+  belowRange: CONSENSUS_TARGETS[1],
+  low: CONSENSUS_TARGETS[1],
+  veryLow: CONSENSUS_TARGETS[2],
+  aboveRange: CONSENSUS_TARGETS[3],
+  high: CONSENSUS_TARGETS[3],
+  veryHigh: CONSENSUS_TARGETS[4]
+};
+
+// Outcome of one consensus goal for a report
+export interface ConsensusTargetResult {
+  label: string;
+  goal: string;
+  value: number;
+  met: boolean;
+}
+
+// Width of each AGP time-of-day slot
+export const AGP_BIN_MINUTES = 15;
+
+// One wall-clock formatter per time zone; creating them is slow
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Throws a RangeError for a time zone Intl does not know
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit'
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether Intl knows a time zone
+ * @param timeZone - IANA time zone, e.g. 'America/New_York'
+ */
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Milliseconds a time zone is ahead of UTC at an instant
+ * @param instant - Milliseconds since the epoch
+ * @param timeZone - IANA time zone, e.g. 'America/New_York'
+ */
+export function zoneOffset(instant: number, timeZone: string): number {
+  const parts = zoneFormatter(timeZone).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ClinicMetricsService {
+
+  /**
+   * Glucose Management Indicator from mean glucose
+   * @param meanMgdl - Mean sensor glucose in mg/dL
+   * @returns GMI (%) = 3.31 + 0.02392 × mean mg/dL
+   */
+  calculateGmi(meanMgdl: number): number {
+    return 3.31 + 0.02392 * meanMgdl;
+  }
+
+  /**
+   * Compute time in range, mean glucose and GMI for a single patient
+   * @param patient - The patient's raw readings
+   * @param window - Optional reporting window; readings outside it are ignored
+   * @param ranges - The time-in-range tier boundaries
+   */
+  calculatePatientMetrics(
+    patient: PatientReadings,
+    window?: ReportingWindow,
+    ranges: GlucoseRanges = STANDARD_GLUCOSE_SETTINGS.ranges
+  ): PatientMetrics {
+    const readings = this.readingsInWindow(patient.readings, window);
+    const days = new Set<string>();
+    const tiers = { veryLow: 0, low: 0, inRange: 0, high: 0, veryHigh: 0 };
+    let total = 0;
+    let lastUpload = '';
+
+    readings.forEach(reading => {
+      days.add(reading.timestamp.slice(0, 10));
+      if (reading.timestamp > lastUpload) {
+        lastUpload = reading.timestamp;
+      }
+      total += reading.mgdl;
+      if (reading.mgdl < ranges.veryLow) {
+        tiers.veryLow++;
+      } else if (reading.mgdl < ranges.low) {
+        tiers.low++;
+      } else if (reading.mgdl <= ranges.high) {
+        tiers.inRange++;
+      } else if (reading.mgdl <= ranges.veryHigh) {
+        tiers.high++;
+      } else {
+        tiers.veryHigh++;
+      }
+    });
+
+    const count = readings.length;
+    const meanGlucose = count ? total / count : 0;
+    const percent = (n: number) => count ? (n / count) * 100 : 0;
+
+    return {
+      patientId: patient.patientId,
+      daysWithData: days.size,
+      readingCount: count,
+      meanGlucose,
+      gmi: count ? this.calculateGmi(meanGlucose) : 0,
+      timeInRange: {
+        inRange: percent(tiers.inRange),
+        aboveRange: percent(tiers.high + tiers.veryHigh),
+        belowRange: percent(tiers.veryLow + tiers.low),
+        veryLow: percent(tiers.veryLow),
+        low: percent(tiers.low),
+        high: percent(tiers.high),
+        veryHigh: percent(tiers.veryHigh)
+      },
+      ...(window && { sensorWear: this.calculateSensorWear(readings.slice().sort((a, b) => a.timestamp.localeCompare(b.timestamp)), window) }),
+      lastUpload
+    };
+  }
+
+  /**
+   * Build the Ambulatory Glucose Profile report for one patient: 5/25/50/75/95th
+   * percentiles per time-of-day slot, daily traces, variability and sensor wear
+   * @param patient - The patient's raw readings
+   * @param window - The reporting window
+   * @param ranges - The time-in-range tier boundaries
+   */
+  calculateAgpReport(patient: PatientReadings, window: ReportingWindow, ranges: GlucoseRanges = STANDARD_GLUCOSE_SETTINGS.ranges): AgpReport {
+    const readings = this.readingsInWindow(patient.readings, window)
+      .slice()
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const metrics = this.calculatePatientMetrics(patient, window, ranges);
+    // Slots and days follow the patient's clock, not UTC
+    const localTime = this.localClock(patient.timeZone);
+    const minuteOfDay = (timestamp: string) => {
+      const date = localTime(timestamp);
+      return date.getUTCHours() * 60 + date.getUTCMinutes();
+    };
+
+    // Percentile bands per time-of-day slot
+    const slots: number[][] = Array.from({ length: 1440 / AGP_BIN_MINUTES }, () => []);
+    readings.forEach(reading => {
+      slots[Math.floor(minuteOfDay(reading.timestamp) / AGP_BIN_MINUTES)].push(reading.mgdl);
+    });
+    const profile = slots.map((values, index) => {
+      const sorted = values.sort((a, b) => a - b);
+      const at = (p: number) => sorted.length ? this.percentile(sorted, p) : null;
+      return { minuteOfDay: index * AGP_BIN_MINUTES, p5: at(5), p25: at(25), p50: at(50), p75: at(75), p95: at(95) };
+    });
+
+    // One trace per calendar day
+    const traces = new Map<string, DailyTrace>();
+    readings.forEach(reading => {
+      const date = localTime(reading.timestamp).toISOString().slice(0, 10);
+      if (!traces.has(date)) {
+        traces.set(date, { date, points: [] });
+      }
+      traces.get(date)!.points.push({ minuteOfDay: minuteOfDay(reading.timestamp), mgdl: reading.mgdl });
+    });
+
+    // Variability
+    const variance = readings.length
+      ? readings.reduce((sum, reading) => sum + (reading.mgdl - metrics.meanGlucose) ** 2, 0) / readings.length
+      : 0;
+    const standardDeviation = Math.sqrt(variance);
+
+    return {
+      metrics,
+      standardDeviation,
+      coefficientOfVariation: metrics.meanGlucose ? (standardDeviation / metrics.meanGlucose) * 100 : 0,
+      sensorWear: this.calculateSensorWear(readings, window),
+      profile,
+      dailyTraces: Array.from(traces.values())
+    };
+  }
+
+  /**
+   * Share of the window covered by sensor readings, using the median gap
+   * between readings as the sensor's sampling interval
+   * @param readings - Readings in the window, sorted by time
+   * @param window - The reporting window
+   */
+  calculateSensorWear(readings: GlucoseReading[], window: ReportingWindow): number {
+    if (readings.length < 2) {
+      return 0;
+    }
+    const gaps = readings.slice(1)
+      .map((reading, i) => (new Date(reading.timestamp).getTime() - new Date(readings[i].timestamp).getTime()) / 60000)
+      .filter(gap => gap > 0)
+      .sort((a, b) => a - b);
+    const interval = Math.max(1, Math.round(gaps.length ? this.percentile(gaps, 50) : 5));
+    const expected = this.daysInWindow(window) * (1440 / interval);
+    return Math.min(100, (readings.length / expected) * 100);
+  }
+
+  /**
+   * Build clinic-level aggregates from per-patient readings.
+   * Patients with fewer than MIN_DAYS_OF_DATA days of readings are excluded.
+   * @param patients - Raw readings for every patient
+   * @param window - The reporting window
+   * @param thresholds - The tier boundaries and GMI cut points
+   */
+  buildClinicData(patients: PatientReadings[], window: ReportingWindow, thresholds: ReportThresholds = STANDARD_GLUCOSE_SETTINGS): ClinicData {
+    const metrics = patients.map(patient => this.calculatePatientMetrics(patient, window, thresholds.ranges));
+    return { ...this.aggregatePatients(metrics, window, thresholds), dataQuality: this.describeDataQuality(metrics) };
+  }
+
+  /**
+   * How many patients a report leaves out and why, and how much of the
+   * window their sensors were worn. Needs every enrolled patient, not only
+   * the included ones a data source may list.
+   * @param patients - Metrics for every patient in the scope and cohort
+   */
+  describeDataQuality(patients: PatientSummary[]): DataQuality {
+    const wear = patients.map(patient => patient.sensorWear).filter((value): value is number => value !== undefined);
+    const distribution: SensorWearDistribution = { from0: 0, from50: 0, from70: 0, from90: 0 };
+    wear.forEach(value => distribution[[...SENSOR_WEAR_BANDS].reverse().find(band => value >= band.min)!.key]++);
+
+    return {
+      enrolledCount: patients.length,
+      excluded: {
+        noData: patients.filter(patient => patient.daysWithData === 0).length,
+        insufficientData: patients.filter(patient => patient.daysWithData > 0 && patient.daysWithData < MIN_DAYS_OF_DATA).length
+      },
+      ...(wear.length > 0 && {
+        sensorWear: { average: Math.round(wear.reduce((a, b) => a + b, 0) / wear.length), distribution }
+      })
+    };
+  }
+
+  /**
+   * Build clinic-level aggregates from per-patient metrics.
+   * Patients with fewer than MIN_DAYS_OF_DATA days of readings are excluded.
+   * @param patients - Metrics for every patient
+   * @param window - The reporting window
+   * @param thresholds - The tier boundaries the patients' time in range was
+   * computed with, and the GMI cut points to bucket them by
+   */
+  aggregatePatients(patients: PatientSummary[], window: ReportingWindow, thresholds: ReportThresholds = STANDARD_GLUCOSE_SETTINGS): ClinicData {
+    const gmiThresholds = thresholds.gmi;
+    const included = patients.filter(metrics => metrics.daysWithData >= MIN_DAYS_OF_DATA);
+
+    const count = included.length;
+    const mean = (values: number[]) => count ? values.reduce((a, b) => a + b, 0) / count : 0;
+    const meanPercent = (pick: (tir: TimeInRange) => number) =>
+      Math.round(mean(included.map(m => pick(m.timeInRange))));
+    const share = (predicate: (gmi: number) => boolean) =>
+      count ? Math.round((included.filter(m => predicate(m.gmi)).length / count) * 100) : 0;
+
+    return {
+      ...(!sameThresholds(thresholds, STANDARD_GLUCOSE_SETTINGS) && { thresholds: { ranges: thresholds.ranges, gmi: thresholds.gmi } }),
+      patientCount: count,
+      ...this.describeWindow(window),
+      lastUpdated: new Date().toISOString(),
+      timeInRange: {
+        inRange: meanPercent(tir => tir.inRange),
+        aboveRange: meanPercent(tir => tir.aboveRange),
+        belowRange: meanPercent(tir => tir.belowRange),
+        veryLow: meanPercent(tir => tir.veryLow),
+        low: meanPercent(tir => tir.low),
+        high: meanPercent(tir => tir.high),
+        veryHigh: meanPercent(tir => tir.veryHigh)
+      },
+      gmi: {
+        average: Math.round(mean(included.map(m => m.gmi)) * 10) / 10,
+        distribution: {
+          optimal: share(gmi => gmi <= gmiThresholds.optimal),
+          suboptimal: share(gmi => gmi > gmiThresholds.optimal && gmi < gmiThresholds.poor),
+          poor: share(gmi => gmi >= gmiThresholds.poor)
+        }
+      }
+    };
+  }
+
+  /**
+   * Combine reports for separate groups of patients (clinics or providers)
+   * into one, weighting each report by its patient count
+   * @param reports - The reports to combine
+   * @param window - The reporting window they all cover
+   */
+  rollUp(reports: ClinicData[], window: ReportingWindow): ClinicData {
+    const count = reports.reduce((total, report) => total + report.patientCount, 0);
+    const weighted = (pick: (report: ClinicData) => number) =>
+      count ? reports.reduce((total, report) => total + pick(report) * report.patientCount, 0) / count : 0;
+    const tir = (key: keyof TimeInRange) => Math.round(weighted(report => report.timeInRange[key]));
+    const share = (key: keyof ClinicData['gmi']['distribution']) => Math.round(weighted(report => report.gmi.distribution[key]));
+    const latest = reports.reduce<ClinicData | null>((newest, report) =>
+      !newest || Date.parse(report.lastUpdated) > Date.parse(newest.lastUpdated) ? report : newest, null);
+
+    const qualities = reports.map(report => report.dataQuality);
+
+    return {
+      patientCount: count,
+      ...this.describeWindow(window),
+      lastUpdated: latest?.lastUpdated ?? '',
+      // Only when every report accounts for its excluded patients
+      ...(reports.length > 0 && qualities.every(quality => quality) && { dataQuality: this.rollUpDataQuality(qualities as DataQuality[]) }),
+      timeInRange: {
+        inRange: tir('inRange'),
+        aboveRange: tir('aboveRange'),
+        belowRange: tir('belowRange'),
+        veryLow: tir('veryLow'),
+        low: tir('low'),
+        high: tir('high'),
+        veryHigh: tir('veryHigh')
+      },
+      gmi: {
+        average: Math.round(weighted(report => report.gmi.average) * 10) / 10,
+        distribution: {
+          optimal: share('optimal'),
+          suboptimal: share('suboptimal'),
+          poor: share('poor')
+        }
+      }
+    };
+  }
+
+  /**
+   * Whether a patient belongs to a drill-down bucket. GMI buckets use the
+   * given cut points; a TIR tier holds the patients whose own time in that
+   * tier misses its consensus goal (for the target tier, those who meet it).
+   * @param patient - The patient's summary metrics
+   * @param bucket - The TIR tier or GMI bucket
+   * @param gmi - The GMI cut points
+   */
+  isInBucket(patient: PatientSummary, bucket: PatientBucket, gmi: GmiThresholds = STANDARD_GLUCOSE_SETTINGS.gmi): boolean {
+    switch (bucket) {
+      case 'optimal':
+        return patient.gmi <= gmi.optimal;
+      case 'suboptimal':
+        return patient.gmi > gmi.optimal && patient.gmi < gmi.poor;
+      case 'poor':
+        return patient.gmi >= gmi.poor;
+      default: {
+        const target = TIER_TARGETS[bucket];
+        const met = target.passes(target.pick(patient.timeInRange));
+        return bucket === 'inRange' ? met : !met;
+      }
+    }
+  }
+
+  /**
+   * Evaluate a report against the International Consensus time-in-range goals
+   * @param data - The clinic report
+   * @param unit - The unit to label the goals in
+   */
+  evaluateConsensusTargets(data: ClinicData, unit: GlucoseUnit = 'mg/dL'): ConsensusTargetResult[] {
+    const ranges = thresholdsOf(data).ranges;
+    const f = (mgdl: number) => formatGlucose(mgdl, unit);
+    return CONSENSUS_TARGETS.map(target => {
+      const value = target.pick(data.timeInRange);
+      return { label: target.label(ranges, f), goal: target.goal, value, met: target.passes(value) };
+    });
+  }
+
+  /**
+   * Period-over-period deltas for TIR, average GMI and each GMI bucket
+   * @param current - The report being viewed
+   * @param baseline - The report it is compared against
+   */
+  compare(current: ClinicData, baseline: ClinicData): MetricDelta[] {
+    // higherIsBetter drives whether an increase counts as an improvement
+    const gmi = thresholdsOf(current).gmi;
+    const metrics = [
+      { label: t('Time in range'), unit: '%', higherIsBetter: true, pick: (d: ClinicData) => d.timeInRange.inRange },
+      { label: t('Average GMI'), unit: '%', higherIsBetter: false, pick: (d: ClinicData) => d.gmi.average },
+      { label: `GMI ${gmiLabel('optimal', gmi)}`, unit: '%', higherIsBetter: true, pick: (d: ClinicData) => d.gmi.distribution.optimal },
+      { label: `GMI ${gmiLabel('suboptimal', gmi)}`, unit: '%', higherIsBetter: false, pick: (d: ClinicData) => d.gmi.distribution.suboptimal },
+      { label: `GMI ${gmiLabel('poor', gmi)}`, unit: '%', higherIsBetter: false, pick: (d: ClinicData) => d.gmi.distribution.poor }
+    ];
+
+    return metrics.map(metric => {
+      const currentValue = metric.pick(current);
+      const baselineValue = metric.pick(baseline);
+      // Round to one decimal to avoid floating point noise such as 0.30000000000000027
+      const delta = Math.round((currentValue - baselineValue) * 10) / 10;
+      const direction = delta > 0 ? 'up' : delta < 0 ? 'down' : 'same';
+
+      return {
+        label: metric.label,
+        unit: metric.unit,
+        current: currentValue,
+        baseline: baselineValue,
+        delta,
+        direction,
+        improved: direction === 'same' ? null : (direction === 'up') === metric.higherIsBetter
+      };
+    });
+  }
+
+  /**
+   * Number of calendar days covered by a window, inclusive of both ends
+   */
+  daysInWindow(window: ReportingWindow): number {
+    return Math.round((this.startOfDay(window.to).getTime() - this.startOfDay(window.from).getTime()) / 86400000) + 1;
+  }
+
+  /**
+   * The reportingDays and ISO dateRange of a window; formatted for the
+   * user's locale when shown
+   */
+  describeWindow(window: ReportingWindow): Pick<ClinicData, 'reportingDays' | 'dateRange'> {
+    return {
+      reportingDays: this.daysInWindow(window),
+      dateRange: `${this.formatDate(window.from)}/${this.formatDate(window.to)}`
+    };
+  }
+
+  /**
+   * Add up the data quality of separate groups of patients, weighting mean
+   * sensor wear by the patients it was measured for
+   * @param qualities - The data quality of each report
+   */
+  private rollUpDataQuality(qualities: DataQuality[]): DataQuality {
+    const sum = (pick: (quality: DataQuality) => number) => qualities.reduce((total, quality) => total + pick(quality), 0);
+    const measured = (quality: DataQuality) => quality.sensorWear
+      ? SENSOR_WEAR_BANDS.reduce((total, band) => total + quality.sensorWear!.distribution[band.key], 0)
+      : 0;
+    const count = sum(measured);
+
+    return {
+      enrolledCount: sum(quality => quality.enrolledCount),
+      excluded: {
+        noData: sum(quality => quality.excluded.noData),
+        insufficientData: sum(quality => quality.excluded.insufficientData)
+      },
+      ...(qualities.every(quality => quality.sensorWear) && count > 0 && {
+        sensorWear: {
+          average: Math.round(sum(quality => (quality.sensorWear?.average ?? 0) * measured(quality)) / count),
+          distribution: {
+            from0: sum(quality => quality.sensorWear!.distribution.from0),
+            from50: sum(quality => quality.sensorWear!.distribution.from50),
+            from70: sum(quality => quality.sensorWear!.distribution.from70),
+            from90: sum(quality => quality.sensorWear!.distribution.from90)
+          }
+        }
+      })
+    };
+  }
+
+  // Linear interpolation between closest ranks; values must be sorted ascending
+  private percentile(sorted: number[], p: number): number {
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  }
+
+  private readingsInWindow(readings: GlucoseReading[], window?: ReportingWindow): GlucoseReading[] {
+    if (!window) {
+      return readings;
+    }
+    const from = this.startOfDay(window.from).getTime();
+    const to = this.startOfDay(window.to).getTime() + 86400000;
+    return readings.filter(reading => {
+      const time = new Date(reading.timestamp).getTime();
+      return time >= from && time < to;
+    });
+  }
+
+  // Converts timestamps to the zone's wall-clock time, to be read with the
+  // getUTC* methods; offsets are looked up once per hour
+  private localClock(timeZone = 'UTC'): (timestamp: string) => Date {
+    const offsets = new Map<number, number>();
+    return timestamp => {
+      const instant = new Date(timestamp).getTime();
+      const hour = Math.floor(instant / 3600000);
+      if (!offsets.has(hour)) {
+        offsets.set(hour, zoneOffset(instant, timeZone));
+      }
+      return new Date(instant + offsets.get(hour)!);
+    };
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  // YYYY-MM-DD of the UTC day
+  private formatDate(date: Date): string {
+    return this.startOfDay(date).toISOString().slice(0, 10);
+  }
+}
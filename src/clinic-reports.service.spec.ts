@@ -0,0 +1,204 @@
+import { Observable, of, throwError } from 'rxjs';
+import { CgmImportService } from './cgm-import.service';
+import { ClinicMetricsService, PatientReadings } from './clinic-metrics.service';
+import { ClinicData, ClinicReportsService, PatientSummary, describeCohort, describeScope } from './clinic-reports.service';
+import { ClinicDataSource } from './data-sources/clinic-data-source';
+import { GlucoseSettingsService } from './glucose-settings.service';
+import { MemoryResponseStore, ResponseCacheService } from './response-cache.service';
+
+function summary(clinicId: string, providerId: string, patientCount: number, inRange: number): ClinicData {
+  return {
+    clinicId,
+    providerId,
+    patientCount,
+    reportingDays: 30,
+    dateRange: '2024-01-01/2024-01-30',
+    lastUpdated: '2024-01-31T15:00:00Z',
+    timeInRange: { inRange, aboveRange: 100 - inRange, belowRange: 0, veryLow: 0, low: 0, high: 100 - inRange, veryHigh: 0 },
+    gmi: { average: 7, distribution: { optimal: 50, suboptimal: 50, poor: 0 } }
+  };
+}
+
+class FakeDataSource extends ClinicDataSource {
+  summaries: unknown = null;
+  patients: PatientSummary[] = [];
+  readings: PatientReadings[] = [];
+  readingsError: Error | null = null;
+
+  getClinics() { return of([]); }
+  getClinicSummaries(): Observable<unknown> { return of(this.summaries); }
+  getPatientSummaries() { return of(this.patients); }
+  getReadings() { return this.readingsError ? throwError(() => this.readingsError) : of(this.readings); }
+  getTrends() { return of({ interval: 'monthly' as const, points: [] }); }
+}
+
+describe('ClinicReportsService', () => {
+  const window = { from: new Date('2024-01-01T00:00:00Z'), to: new Date('2024-01-30T00:00:00Z') };
+  let source: FakeDataSource;
+  let cgmImport: CgmImportService;
+  let service: ClinicReportsService;
+
+  beforeEach(() => {
+    source = new FakeDataSource();
+    cgmImport = new CgmImportService();
+    service = new ClinicReportsService(source, new ClinicMetricsService(), cgmImport, new GlucoseSettingsService(), new ResponseCacheService(new MemoryResponseStore()));
+  });
+
+  it('should roll all clinics up weighted by patient count', (done) => {
+    source.summaries = [summary('c1', 'd1', 10, 90), summary('c2', 'd2', 30, 70)];
+
+    service.getClinicData(window).subscribe(data => {
+      expect(data.clinicId).toBeUndefined();
+      expect(data.patientCount).toBe(40);
+      expect(data.timeInRange.inRange).toBe(75);
+      done();
+    });
+  });
+
+  it('should not report on provider reports for another window', (done) => {
+    source.summaries = [{ ...summary('c1', 'd1', 10, 90), dateRange: '2023-12-01/2023-12-30' }];
+
+    service.getClinicData(window).subscribe(data => {
+      expect(data.patientCount).toBe(0);
+      expect(data.dateRange).toBe('2024-01-01/2024-01-30');
+      done();
+    });
+  });
+
+  it('should scope reports to a clinic and provider', (done) => {
+    source.summaries = [summary('c1', 'd1', 10, 90), summary('c1', 'd2', 30, 70), summary('c2', 'd3', 5, 50)];
+
+    service.getClinicData(window, { clinicId: 'c1', providerId: 'd1' }).subscribe(data => {
+      expect(data.clinicId).toBe('c1');
+      expect(data.providerId).toBe('d1');
+      expect(data.patientCount).toBe(10);
+      expect(data.timeInRange.inRange).toBe(90);
+      done();
+    });
+  });
+
+  it('should scope readings-based reports to a clinic', (done) => {
+    const days = Array.from({ length: 10 }, (_, day) => ({ timestamp: new Date(Date.UTC(2024, 0, day + 1)).toISOString(), mgdl: 120 }));
+    source.readings = [
+      { patientId: 'p1', clinicId: 'c1', providerId: 'd1', readings: days },
+      { patientId: 'p2', clinicId: 'c2', providerId: 'd3', readings: days }
+    ];
+
+    service.getClinicData(window, { clinicId: 'c2', providerId: null }).subscribe(data => {
+      expect(data.clinicId).toBe('c2');
+      expect(data.patientCount).toBe(1);
+      done();
+    });
+  });
+
+  it('should add imported patients to the provider reports of their clinic', (done) => {
+    const days = Array.from({ length: 10 }, (_, day) => ({ timestamp: new Date(Date.UTC(2024, 0, day + 1)).toISOString(), mgdl: 120 }));
+    spyOn(cgmImport, 'getImportedPatients').and.returnValue([
+      { patientId: 'i1', clinicId: 'c1', providerId: 'd1', readings: days },
+      { patientId: 'i2', readings: days }
+    ]);
+    source.summaries = [summary('c1', 'd1', 9, 90), summary('c2', 'd2', 30, 70)];
+
+    service.getClinicData(window, { clinicId: 'c1', providerId: null }).subscribe(data => {
+      expect(data.clinicId).toBe('c1');
+      expect(data.patientCount).toBe(10);
+      expect(data.timeInRange.inRange).toBe(91);
+      done();
+    });
+  });
+
+  it('should count an imported patient the source already lists once', (done) => {
+    const days = Array.from({ length: 10 }, (_, day) => ({ timestamp: new Date(Date.UTC(2024, 0, day + 1)).toISOString(), mgdl: 120 }));
+    spyOn(cgmImport, 'getImportedPatients').and.returnValue([{ patientId: 'p1', clinicId: 'c1', providerId: 'd1', readings: days }]);
+    const listed = (patientId: string, inRange: number): PatientSummary => ({
+      patientId,
+      clinicId: 'c1',
+      providerId: 'd1',
+      daysWithData: 30,
+      gmi: 6.9,
+      timeInRange: { inRange, aboveRange: 100 - inRange, belowRange: 0, veryLow: 0, low: 0, high: 100 - inRange, veryHigh: 0 },
+      lastUpload: '2024-01-30T00:00:00Z'
+    });
+    source.summaries = [summary('c1', 'd1', 2, 70)];
+    source.patients = [listed('p1', 60), listed('p2', 80)];
+
+    service.getClinicData(window).subscribe(data => {
+      expect(data.patientCount).toBe(2);
+      expect(data.timeInRange.inRange).toBe(90);
+      done();
+    });
+  });
+
+  it('should report invalid provider reports', (done) => {
+    source.summaries = [{ ...summary('c1', 'd1', 10, 90), patientCount: -1 }];
+
+    service.getClinicData(window).subscribe({
+      error: (error) => {
+        expect(error.kind).toBe('invalid');
+        expect(error.problems).toEqual(['Report 1: patientCount must be a non-negative whole number']);
+        done();
+      }
+    });
+  });
+
+  it('should fail the report when readings cannot be loaded rather than fall back to summaries', (done) => {
+    source.summaries = [summary('c1', 'd1', 10, 90)];
+    source.readingsError = new Error('Server error');
+
+    service.getClinicData(window).subscribe({
+      next: () => fail('expected the report to fail'),
+      error: (error) => {
+        expect(error.kind).toBe('load-failed');
+        done();
+      }
+    });
+  });
+
+  it('should limit readings-based reports to a cohort', (done) => {
+    const days = Array.from({ length: 10 }, (_, day) => ({ timestamp: new Date(Date.UTC(2024, 0, day + 1)).toISOString(), mgdl: 120 }));
+    source.readings = [
+      { patientId: 'p1', attributes: { diabetesType: 'type1', therapy: 'pump' }, readings: days },
+      { patientId: 'p2', attributes: { diabetesType: 'type1', therapy: 'mdi' }, readings: days },
+      { patientId: 'p3', readings: days }
+    ];
+
+    service.getClinicData(window, { clinicId: null, providerId: null }, { diabetesType: 'type1', therapy: 'pump' }).subscribe(data => {
+      expect(data.patientCount).toBe(1);
+      expect(data.cohort).toEqual({ diabetesType: 'type1', therapy: 'pump' });
+      done();
+    });
+  });
+
+  it('should aggregate a cohort from patient summaries without readings', (done) => {
+    const patient = (patientId: string, diabetesType: 'type1' | 'type2', inRange: number): PatientSummary => ({
+      patientId,
+      clinicId: 'c1',
+      attributes: { diabetesType },
+      daysWithData: 30,
+      gmi: 6.9,
+      timeInRange: { inRange, aboveRange: 100 - inRange, belowRange: 0, veryLow: 0, low: 0, high: 100 - inRange, veryHigh: 0 },
+      lastUpload: '2024-01-30T00:00:00Z'
+    });
+    source.patients = [patient('p1', 'type2', 60), patient('p2', 'type2', 80), patient('p3', 'type1', 90)];
+
+    service.getClinicData(window, { clinicId: 'c1', providerId: null }, { diabetesType: 'type2' }).subscribe(data => {
+      expect(data.clinicId).toBe('c1');
+      expect(data.patientCount).toBe(2);
+      expect(data.timeInRange.inRange).toBe(70);
+      done();
+    });
+  });
+
+  it('should name a report\'s clinic and provider', () => {
+    const clinics = [{ id: 'c1', name: 'Central Clinic', providers: [{ id: 'd1', name: 'Dr. Ana Silva' }] }];
+
+    expect(describeScope({ clinicId: 'c1', providerId: 'd1' }, clinics)).toEqual({ clinic: 'Central Clinic', provider: 'Dr. Ana Silva' });
+    expect(describeScope({}, clinics)).toEqual({ clinic: 'All clinics', provider: 'All providers' });
+    expect(describeScope({ clinicId: 'c9' }, clinics)).toEqual({ clinic: 'c9', provider: 'All providers' });
+  });
+
+  it('should describe a cohort by its labels', () => {
+    expect(describeCohort({ ageBand: 'paediatric', device: 'libre' })).toBe('Paediatric (<18), FreeStyle Libre');
+    expect(describeCohort({})).toBe('All patients');
+  });
+});
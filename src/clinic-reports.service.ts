@@ -1,19 +1,62 @@
-import { HttpClient } from '@angular/common/http';
 import { Injectable } from '@angular/core';
-import { Observable, of } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { CgmImportService } from './cgm-import.service';
+import { ClinicDataError, validateProviderSummaries } from './clinic-data-validator';
+import { ClinicDataSource, toIsoDate } from './data-sources/clinic-data-source';
+import { ClinicMetricsService, MIN_DAYS_OF_DATA, PatientReadings, ReportingWindow } from './clinic-metrics.service';
+import { GlucoseSettingsService, ReportThresholds, STANDARD_GLUCOSE_SETTINGS } from './glucose-settings.service';
+import { t } from './i18n.service';
+import { CachedResponse, ResponseCacheService } from './response-cache.service';
+
+// Percentage of readings in each glucose range (International Consensus tiers).
+// belowRange = veryLow + low and aboveRange = high + veryHigh.
+// The standard boundaries are shown; clinics can configure their own.
+export interface TimeInRange {
+  inRange: number;    // 70-180 mg/dL (target)
+  aboveRange: number; // >180 mg/dL
+  belowRange: number; // <70 mg/dL
+  veryLow: number;    // <54 mg/dL
+  low: number;        // 54-69 mg/dL
+  high: number;       // 181-250 mg/dL
+  veryHigh: number;   // >250 mg/dL
+}
+
+// Patients counted in each sensor wear band, named by its lower bound (%)
+export interface SensorWearDistribution {
+  from0: number;  // <50%
+  from50: number; // 50-69%
+  from70: number; // 70-89%
+  from90: number; // 90-100%
+}
+
+// Who a report's figures cover, and how much of the time their sensors were worn
+export interface DataQuality {
+  enrolledCount: number; // Every patient in the scope and cohort
+  excluded: {
+    noData: number;           // No readings in the window
+    insufficientData: number; // Fewer than MIN_DAYS_OF_DATA days of readings
+  };
+  sensorWear?: {          // Absent when the data source does not report it
+    average: number;      // Mean % across enrolled patients
+    distribution: SensorWearDistribution;
+  };
+}
 
 // Interface for clinic data structure
 export interface ClinicData {
+  clinicId?: string;   // Absent in the all clinics roll-up
+  providerId?: string; // Absent unless limited to one provider
+  cohort?: CohortFilter; // Absent unless limited to a cohort
+  thresholds?: ReportThresholds; // Absent when computed with the standard ones
   patientCount: number;
-  reportingPeriod: string;
-  dateRange: string;
-  lastUpdated: string;
-  timeInRange: {
-    inRange: number;
-    aboveRange: number;
-    belowRange: number;
-  };
+  reportingDays: number; // Length of the reporting window
+  dateRange: string;     // ISO 8601 interval of UTC dates, e.g. "2024-01-01/2024-01-31"
+  lastUpdated: string;   // ISO 8601 timestamp
+  fetchedAt?: string;    // When the data it was computed from was fetched; absent when computed locally
+  stale?: boolean;       // Set when the data source could not be reached and a cached response was used
+  dataQuality?: DataQuality; // Absent when the data source only reports included patients
+  timeInRange: TimeInRange;
   gmi: {
     average: number;
     distribution: {
@@ -24,48 +67,404 @@ export interface ClinicData {
   };
 }
 
+// Per-patient row behind the clinic aggregates
+export interface PatientSummary {
+  patientId: string;
+  clinicId?: string;
+  providerId?: string;
+  attributes?: Partial<PatientAttributes>;
+  daysWithData: number;
+  gmi: number;
+  timeInRange: TimeInRange;
+  sensorWear?: number; // % of the window covered by readings; absent when the data source does not report it
+  lastUpload: string;
+}
+
+export interface Provider {
+  id: string;
+  name: string;
+}
+
+export interface Clinic {
+  id: string;
+  name: string;
+  providers: Provider[];
+}
+
+// Clinic and provider a report is limited to; null means all of them
+export interface ReportScope {
+  clinicId: string | null;
+  providerId: string | null;
+}
+
+export const ALL_CLINICS: ReportScope = { clinicId: null, providerId: null };
+
+// Display names of the clinic and provider a report covers
+export interface ScopeNames {
+  clinic: string;
+  provider: string;
+}
+
+/**
+ * Names of the clinic and provider a report covers, e.g. for its exports.
+ * An id missing from the clinic list is shown as it is.
+ * @param data - The report, labelled with its clinicId and providerId
+ * @param clinics - Every clinic with its providers
+ */
+export function describeScope(data: { clinicId?: string; providerId?: string }, clinics: Clinic[]): ScopeNames {
+  const clinic = clinics.find(candidate => candidate.id === data.clinicId);
+  const provider = clinic?.providers.find(candidate => candidate.id === data.providerId);
+  return {
+    clinic: data.clinicId ? clinic?.name ?? data.clinicId : t('All clinics'),
+    provider: data.providerId ? provider?.name ?? data.providerId : t('All providers')
+  };
+}
+
+// Patient characteristics that reports can be filtered by
+export interface PatientAttributes {
+  diabetesType: 'type1' | 'type2';
+  ageBand: 'paediatric' | 'adult';
+  therapy: 'pump' | 'mdi';
+  device: 'dexcom' | 'libre';
+}
+
+// The selected value of each attribute; attributes that are absent are not filtered on
+export type CohortFilter = Partial<PatientAttributes>;
+
+// The cohort attributes, with a label for each value
+export const COHORT_DIMENSIONS: { key: keyof PatientAttributes; label: string; options: { value: string; label: string }[] }[] = [
+  { key: 'diabetesType', label: t('Diabetes type'), options: [{ value: 'type1', label: t('Type 1') }, { value: 'type2', label: t('Type 2') }] },
+  { key: 'ageBand', label: t('Age'), options: [{ value: 'paediatric', label: t('Paediatric (<18)') }, { value: 'adult', label: t('Adult (18+)') }] },
+  { key: 'therapy', label: t('Therapy'), options: [{ value: 'pump', label: t('Insulin pump') }, { value: 'mdi', label: 'MDI' }] },
+  { key: 'device', label: t('Device'), options: [{ value: 'dexcom', label: 'Dexcom' }, { value: 'libre', label: 'FreeStyle Libre' }] }
+];
+
+export function isCohortFiltered(cohort: CohortFilter): boolean {
+  return Object.values(cohort).some(value => !!value);
+}
+
+// e.g. "Type 1, Insulin pump", or "All patients" when nothing is filtered
+export function describeCohort(cohort: CohortFilter = {}): string {
+  const labels = COHORT_DIMENSIONS
+    .map(dimension => dimension.options.find(option => option.value === cohort[dimension.key])?.label)
+    .filter(label => !!label);
+  return labels.length ? labels.join(', ') : t('All patients');
+}
+
+// A chart segment that can be drilled into: a TIR tier or a GMI bucket
+export type PatientBucket = keyof TimeInRange | keyof ClinicData['gmi']['distribution'];
+
+// Clinic-level metrics for one week or month
+export interface TrendPoint {
+  periodStart: string;
+  periodEnd: string;
+  patientCount: number;
+  inRange: number;
+  belowRange: number;
+  gmiAverage: number;
+}
+
+export type TrendInterval = 'weekly' | 'monthly';
+
+// Time series of clinic-level metrics across the last year
+export interface TrendSeries {
+  interval: TrendInterval;
+  points: TrendPoint[];
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class ClinicReportsService {
 
-  constructor(private http: HttpClient) { }
-  
-  getClinicDataByPeriod(period: number): Observable<ClinicData> {
-    // Map period to corresponding JSON file
-    const fileMap: { [key: number]: string } = {
-      30: '/resource/30day-results.json',
-      60: '/resource/60day-results.json',
-      90: '/resource/90day-results.json'
-    };
+  constructor(
+    private source: ClinicDataSource,
+    private metrics: ClinicMetricsService,
+    private cgmImport: CgmImportService,
+    private glucoseSettings: GlucoseSettingsService,
+    private cache: ResponseCacheService
+  ) { }
 
-    const filePath = fileMap[period];
 
-    if (!filePath) {
-      return of(this.getDefaultData(period));
-    }
+  /**
+   * The last day the data source has data for; date presets end on it
+   */
+  latestDate(): Date {
+    return this.source.latestDate();
+  }
+
+  /**
+   * Clinics and their providers, for the scope selectors
+   */
+  getClinics(): Observable<Clinic[]> {
+    return this.cache.get('clinics', () => this.source.getClinics()).pipe(
+      map(response => response.value),
+      catchError((error) => {
+        return of([]);
+      })
+    );
+  }
 
-    return this.http.get<ClinicData>(filePath).pipe(
-      map((data: ClinicData) => {
-        return data;
+  /**
+   * Roll the data source's per-provider reports for a window up to a scope,
+   * weighting each by its patient count. Only reports for exactly that
+   * window are used.
+   * Windows without reports have no data; a failed request or a payload that
+   * fails validation errors with a ClinicDataError.
+   * @param range - The reporting window (inclusive)
+   * @param scope - The clinic and provider to report on
+   */
+  getClinicSummary(range: ReportingWindow, scope: ReportScope = ALL_CLINICS): Observable<ClinicData> {
+    return this.cache.get(`clinic-summaries:${this.windowKey(range)}`, () => this.source.getClinicSummaries(range)).pipe(
+      catchError((error) => {
+        return throwError(() => new ClinicDataError('load-failed', 'Could not load the clinic report'));
       }),
+      map(({ value: summaries, fetchedAt, stale }: CachedResponse<unknown>) => {
+        if (summaries === null) {
+          return { ...this.withScope(this.getDefaultData(range), scope), fetchedAt, stale };
+        }
+        const problems = validateProviderSummaries(summaries);
+        if (problems.length) {
+          throw new ClinicDataError('invalid', 'The clinic report is not valid clinic data', problems);
+        }
+        const matching = (summaries as ClinicData[])
+          .filter(summary => summary.dateRange === this.windowKey(range) && this.isInScope(summary, scope));
+        return { ...this.withScope(matching.length
+          ? this.metrics.rollUp(matching, range)
+          : this.getDefaultData(range), scope), fetchedAt, stale };
+      })
+    );
+  }
+
+  /**
+   * Build the clinic report for an arbitrary date window.
+   * Computed from raw SG readings when the data source has them. Otherwise a
+   * cohort, or a scope with imported patients, is aggregated from the data
+   * source's per-patient metrics, and a whole clinic or provider is rolled up
+   * from its pre-aggregated reports.
+   * Readings use the clinic's glucose settings; pre-aggregated figures keep
+   * the standard ranges they were computed with (see ClinicData.thresholds).
+   * A failed request errors with a ClinicDataError.
+   * @param range - The reporting window (inclusive)
+   * @param scope - The clinic and provider to report on
+   * @param cohort - The patient characteristics to report on
+   */
+  getClinicData(range: ReportingWindow, scope: ReportScope = ALL_CLINICS, cohort: CohortFilter = {}): Observable<ClinicData> {
+    const settings = this.glucoseSettings.getSettings(scope.clinicId);
+
+    return this.getAllPatientReadings(range).pipe(
+      catchError((error) => {
+        return throwError(() => new ClinicDataError('load-failed', 'Could not load the patient readings'));
+      }),
+      switchMap(({ value: patients, fetchedAt, stale }: CachedResponse<PatientReadings[] | null>) => {
+        if (patients) {
+          const selected = patients.filter(patient => this.isInScope(patient, scope) && this.isInCohort(patient, cohort));
+          return of({ ...this.withCohort(this.withScope(this.metrics.buildClinicData(selected, range, settings), scope), cohort), fetchedAt, stale });
+        }
+        if (!isCohortFiltered(cohort) && !this.importedPatients(scope, cohort).length) {
+          return this.getClinicSummary(range, scope);
+        }
+        // Pre-aggregated reports cannot be split by patient, so a cohort, or
+        // imports that replace the source's copies of their patients, need its patient list
+        return this.getPatientSummaries(range).pipe(
+          catchError(() => throwError(() => new ClinicDataError('load-failed', 'Could not load the patient list'))),
+          switchMap(({ value: patients, fetchedAt, stale }: CachedResponse<PatientSummary[]>) => {
+            if (!patients.length && !isCohortFiltered(cohort)) {
+              return this.getClinicSummary(range, scope).pipe(
+                map(data => this.withImportedPatients(data, range, scope))
+              );
+            }
+            const selected = this.withImportedSummaries(patients, range, scope, cohort);
+            // The source computed each patient's time in range with the standard ranges
+            const thresholds = { ranges: STANDARD_GLUCOSE_SETTINGS.ranges, gmi: settings.gmi };
+            return of({ ...this.withCohort(this.withScope(this.metrics.aggregatePatients(selected, range, thresholds), scope), cohort), fetchedAt, stale });
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Load the clinic-level TIR and GMI time series for the last year
+   * @param interval - Weekly or monthly data points
+   */
+  getTrendData(interval: TrendInterval): Observable<TrendSeries> {
+    return this.cache.get(`trends:${interval}`, () => this.source.getTrends(interval)).pipe(
+      map(response => response.value),
+      catchError((error) => {
+        return of({ interval, points: [] });
+      })
+    );
+  }
+
+  /**
+   * Load the included patients behind the report for a date window.
+   * Computed from raw SG readings when the data source has them, otherwise
+   * taken from its pre-computed patient list.
+   * @param range - The reporting window (inclusive)
+   * @param scope - The clinic and provider to list patients for
+   * @param cohort - The patient characteristics to list patients for
+   */
+  getPatients(range: ReportingWindow, scope: ReportScope = ALL_CLINICS, cohort: CohortFilter = {}): Observable<PatientSummary[]> {
+    const ranges = this.glucoseSettings.getSettings(scope.clinicId).ranges;
+
+    return this.getAllPatientReadings(range).pipe(
+      switchMap(({ value: patients }: CachedResponse<PatientReadings[] | null>) => {
+        if (patients) {
+          return of(patients
+            .filter(patient => this.isInScope(patient, scope) && this.isInCohort(patient, cohort))
+            .map(patient => this.metrics.calculatePatientMetrics(patient, range, ranges))
+            .filter(patient => patient.daysWithData >= MIN_DAYS_OF_DATA));
+        }
+        return this.getPatientSummaries(range).pipe(
+          map(({ value: patients }) => patients),
+          catchError(() => of([])),
+          map(patients => this.withImportedSummaries(patients, range, scope, cohort)
+            .filter(patient => patient.daysWithData >= MIN_DAYS_OF_DATA))
+        );
+      })
+    );
+  }
+
+  /**
+   * Patients that fall into one chart segment
+   * @param range - The reporting window (inclusive)
+   * @param bucket - The TIR tier or GMI bucket that was selected
+   * @param scope - The clinic and provider the chart shows
+   * @param cohort - The patient characteristics the chart shows
+   */
+  getPatientsInBucket(
+    range: ReportingWindow,
+    bucket: PatientBucket,
+    scope: ReportScope = ALL_CLINICS,
+    cohort: CohortFilter = {}
+  ): Observable<PatientSummary[]> {
+    const gmi = this.glucoseSettings.getSettings(scope.clinicId).gmi;
+
+    return this.getPatients(range, scope, cohort).pipe(
+      map(patients => patients.filter(patient => this.metrics.isInBucket(patient, bucket, gmi)))
+    );
+  }
+
+  /**
+   * Raw SG readings for one patient, or null when none are available
+   * @param patientId - The patient identifier
+   * @param range - Only the readings in this window; all when absent
+   */
+  getPatientReadings(patientId: string, range?: ReportingWindow): Observable<PatientReadings | null> {
+    const imported = () => this.cgmImport.getImportedPatients().find(patient => patient.patientId === patientId) ?? null;
+    return this.getAllPatientReadings(range).pipe(
+      map(({ value: patients }: CachedResponse<PatientReadings[] | null>) => patients
+        ? patients.find(patient => patient.patientId === patientId) ?? null
+        : imported()),
       catchError((error) => {
-        return of(this.getDefaultData(period));
+        return of(imported());
       })
     );
   }
 
+  // Readings from the data source, for a window when given, merged with device
+  // files imported this session; an imported patient replaces the data source's copy.
+  // Null when the data source has no readings, so reports fall back to its
+  // pre-computed figures and add the imported patients to those.
+  private getAllPatientReadings(range?: ReportingWindow): Observable<CachedResponse<PatientReadings[] | null>> {
+    const key = range ? `readings:${this.windowKey(range)}` : 'readings';
+
+    return this.cache.get(key, () => this.source.getReadings(range)).pipe(
+      map(({ value: patients, fetchedAt, stale }: CachedResponse<PatientReadings[]>) => {
+        if (!patients.length) {
+          return { value: null, fetchedAt, stale };
+        }
+        const imported = this.cgmImport.getImportedPatients();
+        const importedIds = new Set(imported.map(patient => patient.patientId));
+        return { value: [...patients.filter(patient => !importedIds.has(patient.patientId)), ...imported], fetchedAt, stale };
+      })
+    );
+  }
+
+  // Patients imported this session in a scope and cohort
+  private importedPatients(scope: ReportScope, cohort: CohortFilter): PatientReadings[] {
+    return this.cgmImport.getImportedPatients().filter(patient => this.isInScope(patient, scope) && this.isInCohort(patient, cohort));
+  }
+
+  // The data source's pre-computed patients in a scope and cohort, with the
+  // imported patients in place of their copies. Imports are measured against
+  // the standard ranges, like the data source's figures.
+  private withImportedSummaries(patients: PatientSummary[], range: ReportingWindow, scope: ReportScope, cohort: CohortFilter): PatientSummary[] {
+    const importedIds = new Set(this.cgmImport.getImportedPatients().map(patient => patient.patientId));
+    const imported = this.importedPatients(scope, cohort).map(patient => ({
+      ...this.metrics.calculatePatientMetrics(patient, range),
+      clinicId: patient.clinicId,
+      providerId: patient.providerId,
+      attributes: patient.attributes
+    }));
+    return [
+      ...patients.filter(patient => !importedIds.has(patient.patientId) && this.isInScope(patient, scope) && this.isInCohort(patient, cohort)),
+      ...imported
+    ];
+  }
+
+  // A pre-aggregated report with the imported patients in its scope rolled in.
+  // Only used when the data source has no patient list for the window, so
+  // there is no copy of an imported patient to tell apart from the rest.
+  private withImportedPatients(data: ClinicData, range: ReportingWindow, scope: ReportScope): ClinicData {
+    const imported = this.metrics.buildClinicData(this.importedPatients(scope, {}), range);
+    if (!imported.patientCount) {
+      return data;
+    }
+    const reports = data.patientCount ? [data, imported] : [imported];
+    return { ...this.withScope(this.metrics.rollUp(reports, range), scope), fetchedAt: data.fetchedAt, stale: data.stale };
+  }
+
+  // The data source's pre-computed patients for a window
+  private getPatientSummaries(range: ReportingWindow): Observable<CachedResponse<PatientSummary[]>> {
+    return this.cache.get(`patients:${this.windowKey(range)}`, () => this.source.getPatientSummaries(range));
+  }
+
+  // Cache key part for a reporting window, e.g. "2024-01-01/2024-01-30"
+  private windowKey(range: ReportingWindow): string {
+    return `${toIsoDate(range.from)}/${toIsoDate(range.to)}`;
+  }
+
+  private isInScope(item: { clinicId?: string; providerId?: string }, scope: ReportScope): boolean {
+    return (scope.clinicId === null || item.clinicId === scope.clinicId) &&
+      (scope.providerId === null || item.providerId === scope.providerId);
+  }
+
+  // Patients without a recorded attribute never match a filter on it
+  private isInCohort(patient: { attributes?: Partial<PatientAttributes> }, cohort: CohortFilter): boolean {
+    return (Object.keys(cohort) as (keyof PatientAttributes)[])
+      .every(key => !cohort[key] || patient.attributes?.[key] === cohort[key]);
+  }
+
+  // Label a report with the scope it covers
+  private withScope(data: ClinicData, scope: ReportScope): ClinicData {
+    const { clinicId, providerId, ...rest } = data;
+    return {
+      ...(scope.clinicId !== null && { clinicId: scope.clinicId }),
+      ...(scope.providerId !== null && { providerId: scope.providerId }),
+      ...rest
+    };
+  }
+
+  // Label a report with the cohort it covers
+  private withCohort(data: ClinicData, cohort: CohortFilter): ClinicData {
+    return isCohortFiltered(cohort) ? { ...data, cohort } : data;
+  }
 
-  private getDefaultData(period: number): ClinicData {
+  private getDefaultData(window: ReportingWindow): ClinicData {
     return {
       patientCount: 0,
-      reportingPeriod: `${period} days`,
-      dateRange: 'No data available',
-      lastUpdated: new Date().toLocaleString(),
+      ...this.metrics.describeWindow(window),
+      lastUpdated: new Date().toISOString(),
       timeInRange: {
         inRange: 0,
         aboveRange: 0,
-        belowRange: 0
+        belowRange: 0,
+        veryLow: 0,
+        low: 0,
+        high: 0,
+        veryHigh: 0
       },
       gmi: {
         average: 0,
@@ -0,0 +1,23 @@
+import { COLOR_BLIND_SAFE_COLORS, ColorPaletteService, paletteColors } from './color-palette.service';
+import { STANDARD_GLUCOSE_SETTINGS } from './glucose-settings.service';
+
+describe('ColorPaletteService', () => {
+  beforeEach(() => localStorage.removeItem('clinic-outcomes.color-palette'));
+
+  afterEach(() => localStorage.removeItem('clinic-outcomes.color-palette'));
+
+  it('should use the clinic colours by default', () => {
+    expect(new ColorPaletteService().palette).toBe('clinic');
+    expect(paletteColors('clinic', STANDARD_GLUCOSE_SETTINGS)).toBe(STANDARD_GLUCOSE_SETTINGS.colors);
+  });
+
+  it('should replace the clinic colours with the colour-blind safe ones', () => {
+    expect(paletteColors('colorBlindSafe', STANDARD_GLUCOSE_SETTINGS)).toBe(COLOR_BLIND_SAFE_COLORS);
+  });
+
+  it('should remember the chosen palette', () => {
+    new ColorPaletteService().setPalette('colorBlindSafe');
+
+    expect(new ColorPaletteService().palette).toBe('colorBlindSafe');
+  });
+});
@@ -0,0 +1,61 @@
+import { Injectable } from '@angular/core';
+import { GlucoseSettings } from './glucose-settings.service';
+
+export type ColorPalette = 'clinic' | 'colorBlindSafe';
+
+// Okabe-Ito colours, told apart with any common form of colour blindness
+export const COLOR_BLIND_SAFE_COLORS: GlucoseSettings['colors'] = {
+  veryLow: '#d55e00',
+  low: '#e69f00',
+  inRange: '#009e73',
+  high: '#56b4e9',
+  veryHigh: '#0072b2',
+  optimal: '#009e73',
+  suboptimal: '#e69f00',
+  poor: '#d55e00'
+};
+
+const STORAGE_KEY = 'clinic-outcomes.color-palette';
+
+/**
+ * The tier and bucket colours charts are drawn with
+ * @param palette - The user's palette
+ * @param settings - The clinic's settings, whose colours the clinic palette uses
+ */
+export function paletteColors(palette: ColorPalette, settings: GlucoseSettings): GlucoseSettings['colors'] {
+  return palette === 'colorBlindSafe' ? COLOR_BLIND_SAFE_COLORS : settings.colors;
+}
+
+/**
+ * The colours this user reads charts in. The colour-blind safe palette
+ * replaces the clinic's colours and adds a fill pattern to every segment.
+ * Saved in local storage.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ColorPaletteService {
+
+  private current: ColorPalette = this.load();
+
+  get palette(): ColorPalette {
+    return this.current;
+  }
+
+  setPalette(palette: ColorPalette) {
+    this.current = palette;
+    try {
+      localStorage.setItem(STORAGE_KEY, palette);
+    } catch (error) {
+      console.warn('Colour palette could not be saved to local storage:', error);
+    }
+  }
+
+  private load(): ColorPalette {
+    try {
+      return localStorage.getItem(STORAGE_KEY) === 'colorBlindSafe' ? 'colorBlindSafe' : 'clinic';
+    } catch {
+      return 'clinic';
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { Observable } from 'rxjs';
+import { PatientReadings, ReportingWindow } from '../clinic-metrics.service';
+import { Clinic, PatientSummary, TrendInterval, TrendSeries } from '../clinic-reports.service';
+
+/**
+ * Backend that ClinicReportsService loads clinic data from.
+ * Pick the implementation with provideClinicDataSource in app.config.ts.
+ */
+export abstract class ClinicDataSource {
+
+  /**
+   * Clinics and their providers
+   */
+  abstract getClinics(): Observable<Clinic[]>;
+
+  /**
+   * Pre-aggregated reports for a window, one per provider and labelled with
+   * clinicId and providerId, or null when the backend has none for it.
+   * The payload is untrusted and validated by the caller.
+   * @param range - The reporting window (inclusive)
+   */
+  abstract getClinicSummaries(range: ReportingWindow): Observable<unknown | null>;
+
+  /**
+   * Pre-computed included patients for a window, labelled with clinicId and
+   * providerId; empty when the backend has none for it
+   * @param range - The reporting window (inclusive)
+   */
+  abstract getPatientSummaries(range: ReportingWindow): Observable<PatientSummary[]>;
+
+  /**
+   * Raw SG readings for every patient, labelled with clinicId and providerId;
+   * empty when the backend has none, so reports use its summaries
+   * @param range - Only the readings in this window (inclusive); all when absent
+   */
+  abstract getReadings(range?: ReportingWindow): Observable<PatientReadings[]>;
+
+  /**
+   * Clinic-level TIR and GMI time series for the last year
+   * @param interval - Weekly or monthly data points
+   */
+  abstract getTrends(interval: TrendInterval): Observable<TrendSeries>;
+
+  /**
+   * The last day the backend has data for, which date presets end on;
+   * today for a live backend
+   */
+  latestDate(): Date {
+    return utcToday();
+  }
+}
+
+/**
+ * Today's date at UTC midnight, so preset windows line up with input[type=date] values
+ */
+export function utcToday(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+// Calendar date of a window boundary, as sent to backends
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
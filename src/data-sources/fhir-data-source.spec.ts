@@ -0,0 +1,147 @@
+import { HttpClient } from '@angular/common/http';
+import { of } from 'rxjs';
+import { ClinicMetricsService } from '../clinic-metrics.service';
+import { MemoryResponseStore, ResponseCacheService } from '../response-cache.service';
+import { FhirBundle, FhirDataSource, FhirObservation } from './fhir-data-source';
+
+function observation(patient: string, time: string, value: number, code = '99504-3', unit = 'mg/dL'): FhirObservation {
+  return {
+    resourceType: 'Observation',
+    status: 'final',
+    code: { coding: [{ system: 'http://loinc.org', code }] },
+    subject: { reference: `Patient/${patient}` },
+    effectiveDateTime: time,
+    valueQuantity: { value, unit, code: unit }
+  };
+}
+
+describe('FhirDataSource', () => {
+  let requested: string[];
+  let pages: { [url: string]: FhirBundle };
+  let source: FhirDataSource;
+
+  beforeEach(() => {
+    requested = [];
+    pages = { patients: { resourceType: 'Bundle' } };
+    const http = { get: (url: string) => {
+      requested.push(url);
+      return of(pages[url] ?? (url.includes('/Patient?') ? pages['patients'] : pages['first']));
+    } } as unknown as HttpClient;
+    const cache = new ResponseCacheService(new MemoryResponseStore());
+    source = new FhirDataSource(http, new ClinicMetricsService(), cache, { baseUrl: 'https://fhir.test/r4', pageSize: 2 });
+  });
+
+  it('should search CGM glucose Observations by LOINC code and follow next links', (done) => {
+    pages['first'] = {
+      resourceType: 'Bundle',
+      link: [{ relation: 'next', url: 'https://fhir.test/r4/page2' }],
+      entry: [
+        { resource: observation('p1', '2024-01-01T10:00:00+01:00', 120) },
+        { resource: observation('p2', '2024-01-01T09:00:00Z', 6.5, '99504-3', 'mmol/L') },
+        // A fingerstick result, not a CGM reading
+        { resource: observation('p2', '2024-01-01T09:30:00Z', 140, '41653-7') }
+      ]
+    };
+    pages['https://fhir.test/r4/page2'] = {
+      resourceType: 'Bundle',
+      entry: [{ resource: observation('p1', '2024-01-01T08:00:00Z', 100) }]
+    };
+
+    source.getReadings().subscribe(patients => {
+      expect(requested[0]).toContain('/Observation?code=http%3A%2F%2Floinc.org%7C99504-3&');
+      expect(requested[0]).toContain('&_count=2');
+      expect(requested.filter(url => !url.includes('/Patient?')).length).toBe(2);
+      expect(patients).toEqual([
+        { patientId: 'p1', readings: [{ timestamp: '2024-01-01T08:00:00.000Z', mgdl: 100 }, { timestamp: '2024-01-01T09:00:00.000Z', mgdl: 120 }] },
+        { patientId: 'p2', readings: [{ timestamp: '2024-01-01T09:00:00.000Z', mgdl: 117 }] }
+      ]);
+      done();
+    });
+  });
+
+  it('should only search Observations on the days of the window', (done) => {
+    pages['first'] = { resourceType: 'Bundle' };
+
+    source.getReadings({ from: new Date('2024-01-01T00:00:00Z'), to: new Date('2024-01-31T00:00:00Z') }).subscribe(() => {
+      expect(requested[0]).toContain('&date=ge2024-01-01&date=le2024-01-31&');
+      done();
+    });
+  });
+
+  it('should take clinics and providers from Patients with their included Organizations and Practitioners', (done) => {
+    pages['first'] = { resourceType: 'Bundle', entry: [{ resource: observation('p1', '2024-01-01T08:00:00Z', 100) }] };
+    pages['patients'] = {
+      resourceType: 'Bundle',
+      entry: [
+        { resource: { resourceType: 'Patient', id: 'p1', managingOrganization: { reference: 'Organization/c1' }, generalPractitioner: [{ reference: 'Practitioner/d1' }] } },
+        { resource: { resourceType: 'Patient', id: 'p2', managingOrganization: { reference: 'Organization/c1' } } },
+        { resource: { resourceType: 'Organization', id: 'c1', name: 'Central Clinic' } },
+        { resource: { resourceType: 'Practitioner', id: 'd1', name: [{ prefix: ['Dr.'], given: ['Ana'], family: 'Silva' }] } }
+      ]
+    };
+
+    source.getClinics().subscribe(clinics => {
+      expect(clinics).toEqual([{ id: 'c1', name: 'Central Clinic', providers: [{ id: 'd1', name: 'Dr. Ana Silva' }] }]);
+      source.getReadings().subscribe(patients => {
+        expect(patients).toEqual([
+          { patientId: 'p1', clinicId: 'c1', providerId: 'd1', readings: [{ timestamp: '2024-01-01T08:00:00.000Z', mgdl: 100 }] }
+        ]);
+        done();
+      });
+    });
+  });
+
+  it('should place Patients in an age band from their birth date', () => {
+    const year = new Date().getUTCFullYear();
+    const directory = source.buildDirectory([{
+      resourceType: 'Bundle',
+      entry: [
+        { resource: { resourceType: 'Patient', id: 'p1', birthDate: `${year - 10}-01-01` } },
+        { resource: { resourceType: 'Patient', id: 'p2', birthDate: `${year - 40}-01-01` } },
+        { resource: { resourceType: 'Patient', id: 'p3' } }
+      ]
+    }]);
+
+    expect(directory.patients.get('p1')).toEqual({ attributes: { ageBand: 'paediatric' } });
+    expect(directory.patients.get('p2')).toEqual({ attributes: { ageBand: 'adult' } });
+    expect(directory.patients.get('p3')).toEqual({});
+  });
+
+  it('should ignore erroneous, unrelated and incomplete Observations', () => {
+    const patients = source.addObservations(new Map(), {
+      resourceType: 'Bundle',
+      entry: [
+        { resource: { ...observation('p1', '2024-01-01T08:00:00Z', 100), status: 'entered-in-error' } },
+        { resource: observation('p1', '2024-01-01T08:00:00Z', 37.2, '8310-5', 'Cel') },
+        { resource: { ...observation('p1', '2024-01-01T08:00:00Z', 100), subject: undefined } },
+        { resource: { ...observation('p1', '2024-01-01T08:00:00Z', 100), valueQuantity: undefined } }
+      ]
+    });
+    expect(patients.size).toBe(0);
+  });
+
+  it('should compute monthly trends from the readings', (done) => {
+    const entry = Array.from({ length: 31 }, (_, day) => ({
+      resource: observation('p1', new Date(Date.UTC(2024, 0, day + 1, 12)).toISOString(), 120)
+    }));
+    pages['first'] = { resourceType: 'Bundle', entry };
+
+    source.getTrends('monthly').subscribe(series => {
+      expect(series.points).toEqual([
+        { periodStart: '2024-01-01', periodEnd: '2024-01-31', patientCount: 1, inRange: 100, belowRange: 0, gmiAverage: 6.2 }
+      ]);
+      done();
+    });
+  });
+
+  it('should compute weekly and monthly trends from one search', (done) => {
+    pages['first'] = { resourceType: 'Bundle', entry: [{ resource: observation('p1', '2024-01-01T08:00:00Z', 100) }] };
+
+    source.getTrends('monthly').subscribe(() => {
+      source.getTrends('weekly').subscribe(() => {
+        expect(requested.filter(url => url.includes('/Observation?')).length).toBe(1);
+        done();
+      });
+    });
+  });
+});
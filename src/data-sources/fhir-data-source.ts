@@ -0,0 +1,286 @@
+import { HttpClient } from '@angular/common/http';
+import { Inject, Injectable, InjectionToken } from '@angular/core';
+import { EMPTY, Observable, forkJoin, throwError } from 'rxjs';
+import { expand, map, reduce } from 'rxjs/operators';
+import { ResponseCacheService } from '../response-cache.service';
+import { MGDL_PER_MMOLL } from '../cgm-import.service';
+import { ClinicMetricsService, GlucoseReading, PatientReadings, ReportingWindow } from '../clinic-metrics.service';
+import { Clinic, PatientAttributes, PatientSummary, TrendInterval, TrendPoint, TrendSeries } from '../clinic-reports.service';
+import { ClinicDataSource, toIsoDate } from './clinic-data-source';
+
+export interface FhirDataSourceConfig {
+  baseUrl: string;    // FHIR R4 base, e.g. 'https://fhir.example.org/r4'
+  pageSize?: number;  // Observations requested per search page
+}
+
+export const FHIR_DATA_SOURCE_CONFIG = new InjectionToken<FhirDataSourceConfig>('FHIR_DATA_SOURCE_CONFIG');
+
+// LOINC codes for CGM glucose observations, with the unit each is reported in.
+// Blood and glucometer codes are left out: fingerstick results would skew
+// time in range, GMI and sensor wear, which are defined on CGM readings.
+export const GLUCOSE_LOINC_CODES: { [code: string]: 'mg/dL' | 'mmol/L' } = {
+  '99504-3': 'mg/dL'  // Glucose [Mass/volume] in Interstitial fluid
+};
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+// Only the parts of the FHIR R4 resources that are read here
+export interface FhirObservation {
+  resourceType: 'Observation';
+  status?: string;
+  code?: { coding?: { system?: string; code?: string }[] };
+  subject?: { reference?: string };
+  effectiveDateTime?: string;
+  effectiveInstant?: string;
+  effectivePeriod?: { start?: string };
+  valueQuantity?: { value?: number; unit?: string; code?: string };
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id?: string;
+  birthDate?: string;
+  managingOrganization?: { reference?: string };
+  generalPractitioner?: { reference?: string }[];
+}
+
+export interface FhirOrganization {
+  resourceType: 'Organization';
+  id?: string;
+  name?: string;
+}
+
+export interface FhirPractitioner {
+  resourceType: 'Practitioner';
+  id?: string;
+  name?: { text?: string; prefix?: string[]; given?: string[]; family?: string }[];
+}
+
+export type FhirResource = FhirObservation | FhirPatient | FhirOrganization | FhirPractitioner;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  link?: { relation: string; url: string }[];
+  entry?: { resource?: FhirResource }[];
+}
+
+// Clinics with their providers, and each patient's clinic, provider and age band
+export interface FhirPatientDirectory {
+  clinics: Clinic[];
+  patients: Map<string, { clinicId?: string; providerId?: string; attributes?: Partial<PatientAttributes> }>;
+}
+
+// Patients younger than this are in the paediatric age band
+const ADULT_AGE = 18;
+
+// Observations that must not be reported
+const EXCLUDED_STATUSES = ['entered-in-error', 'cancelled', 'preliminary'];
+
+// Days of readings behind the trends: a year of weekly points, plus the
+// extra week the first point's window covers
+const TREND_DAYS = 53 * 7;
+
+/**
+ * An HL7 FHIR R4 server. Glucose readings are read from Observation
+ * resources with the LOINC codes above; the clinic report and trends are
+ * computed from them, since FHIR has no clinic-level aggregates.
+ * A patient's clinic is their managingOrganization and their provider is
+ * the first generalPractitioner. Only the age band cohort attribute can be
+ * read from the Patient resource, from its birthDate.
+ */
+@Injectable()
+export class FhirDataSource extends ClinicDataSource {
+
+  constructor(
+    private http: HttpClient,
+    private metrics: ClinicMetricsService,
+    private cache: ResponseCacheService,
+    @Inject(FHIR_DATA_SOURCE_CONFIG) private config: FhirDataSourceConfig
+  ) {
+    super();
+  }
+
+  getClinics(): Observable<Clinic[]> {
+    return this.getPatientDirectory().pipe(map(directory => directory.clinics));
+  }
+
+  getClinicSummaries(range: ReportingWindow): Observable<unknown | null> {
+    return throwError(() => new Error('FHIR servers do not provide clinic summaries'));
+  }
+
+  getPatientSummaries(range: ReportingWindow): Observable<PatientSummary[]> {
+    return throwError(() => new Error('FHIR servers do not provide patient summaries'));
+  }
+
+  /**
+   * Search the glucose Observations in a window and label each patient's
+   * readings with their clinic and provider
+   * @param range - Only Observations on these days (inclusive); all when absent
+   */
+  getReadings(range?: ReportingWindow): Observable<PatientReadings[]> {
+    const codes = Object.keys(GLUCOSE_LOINC_CODES).map(code => `${LOINC_SYSTEM}|${code}`).join(',');
+    const dates = range ? `&date=ge${toIsoDate(range.from)}&date=le${toIsoDate(range.to)}` : '';
+    const observations = this.searchAll(`Observation?code=${encodeURIComponent(codes)}${dates}&_sort=date`).pipe(
+      reduce((patients, bundle) => this.addObservations(patients, bundle), new Map<string, GlucoseReading[]>())
+    );
+
+    return forkJoin({ observations, directory: this.getPatientDirectory() }).pipe(
+      map(({ observations, directory }) => Array.from(observations.entries()).map(([patientId, readings]) => ({
+        patientId,
+        ...directory.patients.get(patientId),
+        readings: readings.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      })))
+    );
+  }
+
+  /**
+   * Trend points computed from the readings, one per week (Monday to Sunday)
+   * or calendar month over the year up to the latest reading. Both intervals
+   * use the same cached search of the last TREND_DAYS days.
+   */
+  getTrends(interval: TrendInterval): Observable<TrendSeries> {
+    const to = new Date();
+    const range = { from: new Date(to.getTime() - (TREND_DAYS - 1) * 86400000), to };
+    return this.cache.get(`fhir-readings:${toIsoDate(range.from)}/${toIsoDate(range.to)}`, () => this.getReadings(range)).pipe(
+      map(({ value: patients }) => ({ interval, points: this.buildTrendPoints(patients, interval) }))
+    );
+  }
+
+  /**
+   * Group one page of Observations by patient as mg/dL readings.
+   * Observations without a subject, time, known code or value are ignored.
+   */
+  addObservations(patients: Map<string, GlucoseReading[]>, bundle: FhirBundle): Map<string, GlucoseReading[]> {
+    (bundle.entry ?? []).forEach(({ resource }) => {
+      if (resource?.resourceType !== 'Observation' || EXCLUDED_STATUSES.includes(resource.status ?? '')) return;
+
+      const code = resource.code?.coding?.find(coding => coding.system === LOINC_SYSTEM && !!GLUCOSE_LOINC_CODES[coding.code ?? '']);
+      const patientId = resource.subject?.reference?.replace(/^Patient\//, '');
+      const time = resource.effectiveDateTime ?? resource.effectiveInstant ?? resource.effectivePeriod?.start;
+      const value = resource.valueQuantity?.value;
+      if (!code || !patientId || !time || typeof value !== 'number' || isNaN(Date.parse(time))) return;
+
+      // Trust the quantity's UCUM code over the unit implied by the LOINC code
+      const unit = resource.valueQuantity?.code ?? resource.valueQuantity?.unit ?? GLUCOSE_LOINC_CODES[code.code!];
+      const mgdl = unit === 'mmol/L' ? Math.round(value * MGDL_PER_MMOLL) : Math.round(value);
+
+      const readings = patients.get(patientId) ?? [];
+      readings.push({ timestamp: new Date(time).toISOString(), mgdl });
+      patients.set(patientId, readings);
+    });
+    return patients;
+  }
+
+  /**
+   * Build the clinic and provider lists from one or more pages of Patients
+   * with their Organizations and Practitioners included
+   */
+  buildDirectory(bundles: FhirBundle[]): FhirPatientDirectory {
+    const resources = bundles.flatMap(bundle => (bundle.entry ?? []).map(entry => entry.resource));
+    const names = new Map<string, string>();
+    resources.forEach(resource => {
+      if (resource?.resourceType === 'Organization' && resource.id) {
+        names.set(`Organization/${resource.id}`, resource.name ?? resource.id);
+      }
+      if (resource?.resourceType === 'Practitioner' && resource.id) {
+        const name = resource.name?.[0];
+        const text = name?.text ?? [...(name?.prefix ?? []), ...(name?.given ?? []), name?.family].filter(part => !!part).join(' ');
+        names.set(`Practitioner/${resource.id}`, text || resource.id);
+      }
+    });
+
+    const patients: FhirPatientDirectory['patients'] = new Map();
+    const clinics = new Map<string, Clinic>();
+    resources.forEach(resource => {
+      if (resource?.resourceType !== 'Patient' || !resource.id) return;
+
+      const clinicRef = resource.managingOrganization?.reference;
+      const providerRef = resource.generalPractitioner?.find(practitioner => practitioner.reference?.startsWith('Practitioner/'))?.reference;
+      const clinicId = clinicRef?.replace(/^Organization\//, '');
+      const providerId = providerRef?.replace(/^Practitioner\//, '');
+      const ageBand = this.ageBand(resource.birthDate);
+      patients.set(resource.id, {
+        ...(clinicId ? { clinicId, ...(providerId ? { providerId } : {}) } : {}),
+        ...(ageBand ? { attributes: { ageBand } } : {})
+      });
+
+      if (!clinicId) return;
+      const clinic = clinics.get(clinicId) ?? { id: clinicId, name: names.get(clinicRef!) ?? clinicId, providers: [] };
+      if (providerId && !clinic.providers.some(provider => provider.id === providerId)) {
+        clinic.providers.push({ id: providerId, name: names.get(providerRef!) ?? providerId });
+      }
+      clinics.set(clinicId, clinic);
+    });
+
+    return { clinics: Array.from(clinics.values()), patients };
+  }
+
+  // The patient's age band today, when their birth date is known
+  private ageBand(birthDate?: string): PatientAttributes['ageBand'] | null {
+    const match = birthDate?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!match) return null;
+
+    const [, year, month, day] = match.map(Number);
+    const now = new Date();
+    const adultFrom = Date.UTC(year + ADULT_AGE, month - 1, day);
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) >= adultFrom ? 'adult' : 'paediatric';
+  }
+
+  private getPatientDirectory(): Observable<FhirPatientDirectory> {
+    return this.searchAll('Patient?_include=Patient:organization&_include=Patient:general-practitioner').pipe(
+      reduce((bundles, bundle) => [...bundles, bundle], [] as FhirBundle[]),
+      map(bundles => this.buildDirectory(bundles))
+    );
+  }
+
+  // Every page of a search, following the Bundle's next links
+  private searchAll(query: string): Observable<FhirBundle> {
+    const firstPage = `${this.config.baseUrl}/${query}&_count=${this.config.pageSize ?? 1000}`;
+    return this.http.get<FhirBundle>(firstPage).pipe(
+      expand(bundle => {
+        const next = bundle.link?.find(link => link.relation === 'next');
+        return next ? this.http.get<FhirBundle>(next.url) : EMPTY;
+      })
+    );
+  }
+
+  private buildTrendPoints(patients: PatientReadings[], interval: TrendInterval): TrendPoint[] {
+    const latest = patients.reduce((max, patient) => patient.readings.reduce(
+      (m, reading) => Math.max(m, Date.parse(reading.timestamp)), max), 0);
+    if (!latest) return [];
+
+    // Each point reports a period; its metrics are computed over a window that
+    // may start earlier
+    const points: { period: ReportingWindow; window: ReportingWindow }[] = [];
+    const end = new Date(latest);
+    if (interval === 'weekly') {
+      // A single week can never satisfy the 10-day inclusion rule, so weekly
+      // points use the two weeks ending on their Sunday
+      const monday = Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate() - (end.getUTCDay() + 6) % 7);
+      for (let week = 51; week >= 0; week--) {
+        const from = monday - week * 7 * 86400000;
+        const to = new Date(from + 6 * 86400000);
+        points.push({ period: { from: new Date(from), to }, window: { from: new Date(from - 7 * 86400000), to } });
+      }
+    } else {
+      for (let month = 11; month >= 0; month--) {
+        const year = end.getUTCFullYear();
+        const index = end.getUTCMonth() - month;
+        const period = { from: new Date(Date.UTC(year, index, 1)), to: new Date(Date.UTC(year, index + 1, 0)) };
+        points.push({ period, window: period });
+      }
+    }
+
+    return points
+      .map(({ period, window }) => ({ period, data: this.metrics.buildClinicData(patients, window) }))
+      .filter(({ data }) => data.patientCount > 0)
+      .map(({ period, data }) => ({
+        periodStart: toIsoDate(period.from),
+        periodEnd: toIsoDate(period.to),
+        patientCount: data.patientCount,
+        inRange: data.timeInRange.inRange,
+        belowRange: data.timeInRange.belowRange,
+        gmiAverage: data.gmi.average
+      }));
+  }
+}
@@ -0,0 +1,42 @@
+import { HttpClient, HttpRequest, HttpResponse } from '@angular/common/http';
+import { filter, map } from 'rxjs/operators';
+import { ClinicMetricsService, MIN_DAYS_OF_DATA } from '../clinic-metrics.service';
+import { MemoryResponseStore, ResponseCacheService } from '../response-cache.service';
+import { FhirDataSource } from './fhir-data-source';
+import { MOCK_FHIR_URL, getMockPatients, mockBackendInterceptor } from './mock-backend.interceptor';
+
+describe('mockBackendInterceptor', () => {
+  // An HttpClient that only talks to the mock backend
+  const http = {
+    get: (url: string) => mockBackendInterceptor(new HttpRequest('GET', url), () => { throw new Error(`Unexpected request ${url}`); }).pipe(
+      filter(event => event instanceof HttpResponse),
+      map(event => (event as HttpResponse<unknown>).body)
+    )
+  } as unknown as HttpClient;
+
+  it('should generate the same patients on every call', () => {
+    const patients = getMockPatients();
+    expect(getMockPatients()).toBe(patients);
+    expect(patients.length).toBe(12);
+    expect(patients.filter(patient => patient.readings.length < MIN_DAYS_OF_DATA * 24).length).toBe(1);
+  });
+
+  it('should serve paged FHIR Observations and Patients that the FHIR data source can read', (done) => {
+    const source = new FhirDataSource(http, new ClinicMetricsService(), new ResponseCacheService(new MemoryResponseStore()), { baseUrl: MOCK_FHIR_URL, pageSize: 5000 });
+
+    source.getReadings().subscribe(patients => {
+      // Only the age band is carried by the FHIR Patient resource
+      expect(patients).toEqual(getMockPatients().map(patient => ({ ...patient, attributes: { ageBand: patient.attributes!.ageBand } })));
+      done();
+    });
+  });
+
+  it('should answer unknown FHIR resources with 404', (done) => {
+    http.get(`${MOCK_FHIR_URL}/Encounter`).subscribe({
+      error: (error) => {
+        expect(error.status).toBe(404);
+        done();
+      }
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { HttpErrorResponse, HttpEvent, HttpHandlerFn, HttpInterceptorFn, HttpParams, HttpRequest, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Observable, of, throwError } from 'rxjs';
+import { delay } from 'rxjs/operators';
+import { ClinicMetricsService, MIN_DAYS_OF_DATA, PatientReadings, ReportingWindow } from '../clinic-metrics.service';
+import { Clinic, PatientAttributes } from '../clinic-reports.service';
+import { FhirBundle, FhirObservation, FhirResource } from './fhir-data-source';
+
+// Base URLs answered in memory; point the REST or FHIR data source at them to work offline
+export const MOCK_API_URL = '/mock-api';
+export const MOCK_FHIR_URL = '/mock-fhir';
+
+const MOCK_LATENCY_MS = 150;
+const MOCK_PATIENT_COUNT = 12;
+const MOCK_DAYS = 90;
+
+export const MOCK_CLINICS: Clinic[] = [
+  { id: 'harbour', name: 'Harbour Street Clinic', providers: [{ id: 'dr-ward', name: 'Dr. E. Ward' }, { id: 'dr-sato', name: 'Dr. K. Sato' }] },
+  { id: 'hillview', name: 'Hillview Health', providers: [{ id: 'dr-moreau', name: 'Dr. C. Moreau' }, { id: 'np-adeyemi', name: 'NP T. Adeyemi' }] }
+];
+
+let mockPatients: PatientReadings[] | null = null;
+let mockObservations: FhirObservation[] | null = null;
+
+/**
+ * Serves the REST API and a FHIR Observation search from generated patient
+ * data. Requests to any other URL are passed through.
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  if (req.url.startsWith(MOCK_API_URL)) {
+    return handleRest(req, next, inject(ClinicMetricsService));
+  }
+  if (req.url.startsWith(MOCK_FHIR_URL)) {
+    return handleFhir(req);
+  }
+  return next(req);
+};
+
+/**
+ * Deterministic hourly readings ending today (UTC), the same on every call.
+ * Patients are spread across the MOCK_CLINICS providers with a mix of
+ * cohort attributes, and the last one has too few days of data to be
+ * included in reports.
+ */
+export function getMockPatients(): PatientReadings[] {
+  if (mockPatients) return mockPatients;
+
+  const random = seededRandom(42);
+  const now = new Date();
+  const end = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 23);
+  const providers = MOCK_CLINICS.flatMap(clinic => clinic.providers.map(provider => ({ clinicId: clinic.id, providerId: provider.id })));
+
+  mockPatients = Array.from({ length: MOCK_PATIENT_COUNT }, (_, index) => {
+    const days = index === MOCK_PATIENT_COUNT - 1 ? MIN_DAYS_OF_DATA - 2 : MOCK_DAYS;
+    const mean = 115 + index * 9;
+    const swing = 30 + index * 4;
+    const readings = [];
+
+    for (let hour = days * 24 - 1; hour >= 0; hour--) {
+      // Occasional sensor gaps
+      if (random() < 0.05) continue;
+      const time = end - hour * 3600000;
+      const daily = Math.sin(((new Date(time).getUTCHours() - 8) / 24) * 2 * Math.PI);
+      const mgdl = Math.round(mean + swing * daily + (random() - 0.5) * 60);
+      readings.push({ timestamp: new Date(time).toISOString(), mgdl: Math.min(400, Math.max(40, mgdl)) });
+    }
+
+    const attributes: PatientAttributes = {
+      diabetesType: index % 3 === 0 ? 'type2' : 'type1',
+      ageBand: index < 3 ? 'paediatric' : 'adult',
+      therapy: index % 2 ? 'pump' : 'mdi',
+      device: index % 4 < 2 ? 'dexcom' : 'libre'
+    };
+
+    return { patientId: `M-${String(index + 1).padStart(4, '0')}`, ...providers[index % providers.length], attributes, readings };
+  });
+  return mockPatients;
+}
+
+function handleRest(req: HttpRequest<unknown>, next: HttpHandlerFn, metrics: ClinicMetricsService): Observable<HttpEvent<unknown>> {
+  const url = new URL(req.urlWithParams, 'http://mock');
+  const path = url.pathname.slice(MOCK_API_URL.length);
+  const window = (): ReportingWindow => ({
+    from: new Date(url.searchParams.get('from') ?? ''),
+    to: new Date(url.searchParams.get('to') ?? '')
+  });
+
+  switch (path) {
+    case '/clinics':
+      return respond(req, MOCK_CLINICS);
+    case '/clinic-summaries':
+      return respond(req, MOCK_CLINICS.flatMap(clinic => clinic.providers.map(provider => ({
+        clinicId: clinic.id,
+        providerId: provider.id,
+        ...metrics.buildClinicData(getMockPatients().filter(patient => patient.providerId === provider.id), window())
+      }))));
+    case '/patients':
+      return respond(req, getMockPatients()
+        .map(patient => ({
+          ...metrics.calculatePatientMetrics(patient, window()),
+          clinicId: patient.clinicId,
+          providerId: patient.providerId,
+          attributes: patient.attributes
+        }))
+        .filter(patient => patient.daysWithData >= MIN_DAYS_OF_DATA));
+    case '/readings':
+      return respond(req, getMockPatients());
+    case '/trends':
+      // Trends come from the static sample files
+      return next(req.clone({ url: `/resource/trends-${url.searchParams.get('interval')}.json`, params: new HttpParams() }));
+    default:
+      return notFound(req);
+  }
+}
+
+function handleFhir(req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+  const url = new URL(req.urlWithParams, 'http://mock');
+
+  switch (url.pathname) {
+    case `${MOCK_FHIR_URL}/Observation`:
+      mockObservations ??= getMockPatients().flatMap(patient => patient.readings.map((reading): FhirObservation => ({
+        resourceType: 'Observation',
+        status: 'final',
+        code: { coding: [{ system: 'http://loinc.org', code: '99504-3' }] },
+        subject: { reference: `Patient/${patient.patientId}` },
+        effectiveDateTime: reading.timestamp,
+        valueQuantity: { value: reading.mgdl, unit: 'mg/dL', code: 'mg/dL' }
+      })));
+      return respond(req, searchBundle(url, mockObservations.filter(observation => onSearchDates(url, observation.effectiveDateTime!))));
+    case `${MOCK_FHIR_URL}/Patient`:
+      // Patients with their Organization and Practitioner included
+      return respond(req, searchBundle(url, [
+        ...getMockPatients().map((patient): FhirResource => ({
+          resourceType: 'Patient',
+          id: patient.patientId,
+          birthDate: `${new Date().getUTCFullYear() - (patient.attributes?.ageBand === 'paediatric' ? 10 : 40)}-01-01`,
+          managingOrganization: { reference: `Organization/${patient.clinicId}` },
+          generalPractitioner: [{ reference: `Practitioner/${patient.providerId}` }]
+        })),
+        ...MOCK_CLINICS.map((clinic): FhirResource => ({ resourceType: 'Organization', id: clinic.id, name: clinic.name })),
+        ...MOCK_CLINICS.flatMap(clinic => clinic.providers.map((provider): FhirResource => ({
+          resourceType: 'Practitioner', id: provider.id, name: [{ text: provider.name }]
+        })))
+      ]));
+    default:
+      return notFound(req);
+  }
+}
+
+// Whether a time matches the search's date=geYYYY-MM-DD and date=leYYYY-MM-DD bounds
+function onSearchDates(url: URL, time: string): boolean {
+  const day = time.slice(0, 10);
+  return url.searchParams.getAll('date').every(bound =>
+    bound.startsWith('ge') ? day >= bound.slice(2) : bound.startsWith('le') ? day <= bound.slice(2) : true);
+}
+
+// One page of a searchset Bundle, paged with _count and _offset
+function searchBundle(url: URL, resources: FhirResource[]): FhirBundle {
+  const count = Number(url.searchParams.get('_count') ?? 1000);
+  const offset = Number(url.searchParams.get('_offset') ?? 0);
+  const bundle: FhirBundle & { type: string; total: number } = {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    total: resources.length,
+    link: [{ relation: 'self', url: `${url.pathname}${url.search}` }],
+    entry: resources.slice(offset, offset + count).map(resource => ({ resource }))
+  };
+
+  if (offset + count < resources.length) {
+    url.searchParams.set('_offset', String(offset + count));
+    bundle.link!.push({ relation: 'next', url: `${url.pathname}${url.search}` });
+  }
+  return bundle;
+}
+
+function respond(req: HttpRequest<unknown>, body: unknown): Observable<HttpEvent<unknown>> {
+  return of(new HttpResponse({ status: 200, url: req.urlWithParams, body })).pipe(delay(MOCK_LATENCY_MS));
+}
+
+function notFound(req: HttpRequest<unknown>): Observable<never> {
+  return throwError(() => new HttpErrorResponse({ status: 404, statusText: 'Not Found', url: req.urlWithParams }));
+}
+
+// Small deterministic PRNG (mulberry32) so mock data is stable between reloads
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
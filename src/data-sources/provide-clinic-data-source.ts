@@ -0,0 +1,31 @@
+import { Provider } from '@angular/core';
+import { ClinicDataSource } from './clinic-data-source';
+import { FHIR_DATA_SOURCE_CONFIG, FhirDataSource, FhirDataSourceConfig } from './fhir-data-source';
+import { REST_DATA_SOURCE_CONFIG, RestDataSource, RestDataSourceConfig } from './rest-data-source';
+import { StaticJsonDataSource } from './static-json-data-source';
+
+export type ClinicDataSourceConfig =
+  | { kind: 'static' }
+  | ({ kind: 'rest' } & RestDataSourceConfig)
+  | ({ kind: 'fhir' } & FhirDataSourceConfig);
+
+/**
+ * Providers that select the backend ClinicReportsService loads from
+ * @param config - Which data source to use and its settings
+ */
+export function provideClinicDataSource(config: ClinicDataSourceConfig): Provider[] {
+  switch (config.kind) {
+    case 'rest':
+      return [
+        { provide: REST_DATA_SOURCE_CONFIG, useValue: config },
+        { provide: ClinicDataSource, useClass: RestDataSource }
+      ];
+    case 'fhir':
+      return [
+        { provide: FHIR_DATA_SOURCE_CONFIG, useValue: config },
+        { provide: ClinicDataSource, useClass: FhirDataSource }
+      ];
+    default:
+      return [{ provide: ClinicDataSource, useClass: StaticJsonDataSource }];
+  }
+}
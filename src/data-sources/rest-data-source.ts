@@ -0,0 +1,65 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Inject, Injectable, InjectionToken } from '@angular/core';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { PatientReadings, ReportingWindow } from '../clinic-metrics.service';
+import { Clinic, PatientSummary, TrendInterval, TrendSeries } from '../clinic-reports.service';
+import { ClinicDataSource, toIsoDate } from './clinic-data-source';
+
+export interface RestDataSourceConfig {
+  baseUrl: string; // e.g. 'https://reports.example.org/api'
+}
+
+export const REST_DATA_SOURCE_CONFIG = new InjectionToken<RestDataSourceConfig>('REST_DATA_SOURCE_CONFIG');
+
+/**
+ * A clinic reporting REST API:
+ * - GET {baseUrl}/clinics → Clinic[]
+ * - GET {baseUrl}/clinic-summaries?from=YYYY-MM-DD&to=YYYY-MM-DD → ClinicData[], one per provider (404 when there are none)
+ * - GET {baseUrl}/patients?from=YYYY-MM-DD&to=YYYY-MM-DD → PatientSummary[] (404 when there are none)
+ * - GET {baseUrl}/readings[?from=YYYY-MM-DD&to=YYYY-MM-DD] → PatientReadings[] (404 when the API has none)
+ * - GET {baseUrl}/trends?interval=weekly|monthly → TrendSeries
+ */
+@Injectable()
+export class RestDataSource extends ClinicDataSource {
+
+  constructor(private http: HttpClient, @Inject(REST_DATA_SOURCE_CONFIG) private config: RestDataSourceConfig) {
+    super();
+  }
+
+  getClinics(): Observable<Clinic[]> {
+    return this.http.get<Clinic[]>(`${this.config.baseUrl}/clinics`);
+  }
+
+  getClinicSummaries(range: ReportingWindow): Observable<unknown | null> {
+    return this.http.get<unknown>(`${this.config.baseUrl}/clinic-summaries`, { params: this.windowParams(range) }).pipe(
+      catchError((error: HttpErrorResponse) => {
+        return error.status === 404 ? of(null) : throwError(() => error);
+      })
+    );
+  }
+
+  getPatientSummaries(range: ReportingWindow): Observable<PatientSummary[]> {
+    return this.http.get<PatientSummary[]>(`${this.config.baseUrl}/patients`, { params: this.windowParams(range) }).pipe(
+      catchError((error: HttpErrorResponse) => {
+        return error.status === 404 ? of([]) : throwError(() => error);
+      })
+    );
+  }
+
+  getReadings(range?: ReportingWindow): Observable<PatientReadings[]> {
+    return this.http.get<PatientReadings[]>(`${this.config.baseUrl}/readings`, { params: range ? this.windowParams(range) : {} }).pipe(
+      catchError((error: HttpErrorResponse) => {
+        return error.status === 404 ? of([]) : throwError(() => error);
+      })
+    );
+  }
+
+  getTrends(interval: TrendInterval): Observable<TrendSeries> {
+    return this.http.get<TrendSeries>(`${this.config.baseUrl}/trends`, { params: { interval } });
+  }
+
+  private windowParams(range: ReportingWindow) {
+    return { from: toIsoDate(range.from), to: toIsoDate(range.to) };
+  }
+}
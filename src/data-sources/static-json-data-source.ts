@@ -0,0 +1,61 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { PatientReadings, ReportingWindow } from '../clinic-metrics.service';
+import { Clinic, PatientSummary, TrendInterval, TrendSeries } from '../clinic-reports.service';
+import { ClinicDataSource, toIsoDate } from './clinic-data-source';
+
+// The last day of sample data; the 30, 60 and 90 day presets end on it
+const LATEST_SAMPLE_DATE = '2024-03-31';
+
+// The windows the sample files cover, by their "YYYY-MM-DD/YYYY-MM-DD" date range,
+// with the pre-aggregated per-provider reports and included patients for each
+const SAMPLE_FILES: { [dateRange: string]: { summaries: string; patients: string } } = {
+  [`2024-03-02/${LATEST_SAMPLE_DATE}`]: { summaries: '/resource/30day-results-by-provider.json', patients: '/resource/30day-patients.json' },
+  [`2024-02-01/${LATEST_SAMPLE_DATE}`]: { summaries: '/resource/60day-results-by-provider.json', patients: '/resource/60day-patients.json' },
+  [`2024-01-02/${LATEST_SAMPLE_DATE}`]: { summaries: '/resource/90day-results-by-provider.json', patients: '/resource/90day-patients.json' }
+};
+
+/**
+ * The JSON files shipped in public/resource. They cover the last 30, 60
+ * and 90 days up to 31 March 2024; any other window has no data.
+ */
+@Injectable()
+export class StaticJsonDataSource extends ClinicDataSource {
+
+  constructor(private http: HttpClient) {
+    super();
+  }
+
+  getClinics(): Observable<Clinic[]> {
+    return this.http.get<Clinic[]>('/resource/clinics.json');
+  }
+
+  getClinicSummaries(range: ReportingWindow): Observable<unknown | null> {
+    const files = this.filesFor(range);
+    return files ? this.http.get<unknown>(files.summaries) : of(null);
+  }
+
+  getPatientSummaries(range: ReportingWindow): Observable<PatientSummary[]> {
+    const files = this.filesFor(range);
+    return files ? this.http.get<PatientSummary[]>(files.patients) : of([]);
+  }
+
+  // The sample files only hold pre-aggregated figures
+  getReadings(): Observable<PatientReadings[]> {
+    return of([]);
+  }
+
+  getTrends(interval: TrendInterval): Observable<TrendSeries> {
+    return this.http.get<TrendSeries>(`/resource/trends-${interval}.json`);
+  }
+
+  override latestDate(): Date {
+    return new Date(LATEST_SAMPLE_DATE);
+  }
+
+  // Only a window with exactly the dates of a sample file has data
+  private filesFor(range: ReportingWindow) {
+    return SAMPLE_FILES[`${toIsoDate(range.from)}/${toIsoDate(range.to)}`] ?? null;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Save a generated file through a temporary download link
+ * @param blob - The file contents
+ * @param extension - File extension, e.g. 'pdf' or 'csv'
+ * @param name - File name prefix; a timestamp is appended
+ */
+export function downloadFile(blob: Blob, extension: string, name = 'clinic-outcomes') {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+
+  // Generate filename with timestamp
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+  link.download = `${name}-${timestamp}.${extension}`;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,7 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { mockBackendInterceptor } from '../data-sources/mock-backend.interceptor';
+
+// The mock backend answers /mock-api and /mock-fhir in memory; only this file imports it, so it stays out of production bundles
+export const environment = {
+  httpInterceptors: [mockBackendInterceptor] as HttpInterceptorFn[]
+};
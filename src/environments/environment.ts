@@ -0,0 +1,6 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+
+// Production builds talk to the real backend; development builds replace this file with environment.development.ts
+export const environment = {
+  httpInterceptors: [] as HttpInterceptorFn[]
+};
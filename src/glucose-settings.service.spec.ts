@@ -0,0 +1,91 @@
+import {
+  GLUCOSE_SETTINGS_PRESETS,
+  GlucoseSettingsService,
+  STANDARD_GLUCOSE_SETTINGS,
+  gmiLabel,
+  tierLabel,
+  validateGlucoseSettings
+} from './glucose-settings.service';
+import { currentLocale, useLocale } from './i18n.service';
+
+describe('GlucoseSettingsService', () => {
+  const pregnancy = GLUCOSE_SETTINGS_PRESETS[1];
+  let service: GlucoseSettingsService;
+
+  beforeEach(() => {
+    localStorage.removeItem('clinic-outcomes.glucose-settings');
+    service = new GlucoseSettingsService();
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('clinic-outcomes.glucose-settings');
+  });
+
+  it('should use the standard settings until others are saved', () => {
+    expect(service.getSettings(null)).toBe(STANDARD_GLUCOSE_SETTINGS);
+    expect(service.getSettings('c1')).toBe(STANDARD_GLUCOSE_SETTINGS);
+  });
+
+  it('should fall back from a clinic to the default settings', () => {
+    service.saveSettings(null, { ...STANDARD_GLUCOSE_SETTINGS, name: 'Default' });
+    service.saveSettings('c1', pregnancy);
+
+    expect(service.getSettings('c1')).toEqual(pregnancy);
+    expect(service.getSettings('c2').name).toBe('Default');
+    expect(service.hasOwnSettings('c2')).toBeFalse();
+
+    service.resetSettings('c1');
+    expect(service.getSettings('c1').name).toBe('Default');
+  });
+
+  it('should persist settings between sessions', () => {
+    service.saveSettings('c1', pregnancy);
+
+    expect(new GlucoseSettingsService().getSettings('c1')).toEqual(pregnancy);
+  });
+
+  it('should refuse invalid settings', () => {
+    const invalid = { ...pregnancy, ranges: { veryLow: 54, low: 150, high: 140, veryHigh: 250 } };
+
+    expect(() => service.saveSettings('c1', invalid)).toThrowError(/must increase/);
+    expect(service.hasOwnSettings('c1')).toBeFalse();
+  });
+
+  it('should report every problem with a settings draft', () => {
+    const problems = validateGlucoseSettings({
+      name: ' ',
+      ranges: { veryLow: 54, low: 70.5, high: 180, veryHigh: 250 },
+      gmi: { optimal: 8, poor: 7 },
+      colors: { ...STANDARD_GLUCOSE_SETTINGS.colors, inRange: 'green' }
+    });
+
+    expect(problems).toEqual([
+      'A name is required',
+      'Glucose ranges must be whole numbers of mg/dL',
+      'The optimal GMI cut point must be below the poor one',
+      'Colour for inRange must be a #rrggbb value'
+    ]);
+  });
+
+  it('should label tiers and GMI buckets from the thresholds', () => {
+    expect(tierLabel('low', pregnancy.ranges)).toBe('Low (54-62)');
+    expect(tierLabel('high', pregnancy.ranges)).toBe('High (141-250)');
+    expect(gmiLabel('suboptimal', pregnancy.gmi)).toBe('6-7%');
+  });
+
+  it('should label tiers in mmol/L', () => {
+    expect(tierLabel('low', STANDARD_GLUCOSE_SETTINGS.ranges, 'mmol/L')).toBe('Low (3.0-3.8)');
+    expect(tierLabel('inRange', STANDARD_GLUCOSE_SETTINGS.ranges, 'mmol/L')).toBe('Target Range (3.9-10.0)');
+    expect(tierLabel('high', STANDARD_GLUCOSE_SETTINGS.ranges, 'mmol/L')).toBe('High (10.1-13.9)');
+  });
+
+  it('should write GMI cut points with the locale\'s decimal separator', () => {
+    const initial = currentLocale();
+    useLocale('es');
+    try {
+      expect(gmiLabel('suboptimal', { optimal: 6.5, poor: 8 })).toBe('6,5-8%');
+    } finally {
+      useLocale(initial);
+    }
+  });
+});
@@ -0,0 +1,234 @@
+import { Injectable } from '@angular/core';
+import { SENSOR_LIMITS } from './cgm-import.service';
+import { ClinicData, TimeInRange } from './clinic-reports.service';
+import { GlucoseUnit, formatGlucose } from './glucose-unit.service';
+import { formatNumber, t } from './i18n.service';
+
+// Boundaries in mg/dL between the five time-in-range tiers
+export interface GlucoseRanges {
+  veryLow: number;  // Below this is very low
+  low: number;      // Bottom of the target range; below this is low
+  high: number;     // Top of the target range; above this is high
+  veryHigh: number; // Above this is very high
+}
+
+// GMI cut points (%) for the clinic distribution buckets
+export interface GmiThresholds {
+  optimal: number; // At or below this is optimal
+  poor: number;    // At or above this is poor
+}
+
+export type GlucoseTier = 'veryLow' | 'low' | 'inRange' | 'high' | 'veryHigh';
+export type GmiBucket = keyof ClinicData['gmi']['distribution'];
+
+// The thresholds a report was computed with
+export interface ReportThresholds {
+  ranges: GlucoseRanges;
+  gmi: GmiThresholds;
+}
+
+// Everything a clinic can configure about how its reports are computed and drawn
+export interface GlucoseSettings extends ReportThresholds {
+  name: string;
+  colors: { [key in GlucoseTier | GmiBucket]: string };
+}
+
+// Standard of care ranges from the International Consensus on Time in Range
+export const STANDARD_GLUCOSE_SETTINGS: GlucoseSettings = {
+  name: 'Standard',
+  ranges: { veryLow: 54, low: 70, high: 180, veryHigh: 250 },
+  gmi: { optimal: 7, poor: 8 },
+  colors: {
+    veryLow: '#d32f2f',
+    low: '#f44336',
+    inRange: '#8bc34a',
+    high: '#ffc107',
+    veryHigh: '#ff9800',
+    optimal: '#8bc34a',
+    suboptimal: '#ffc107',
+    poor: '#f44336'
+  }
+};
+
+// Starting points offered on the settings screen
+export const GLUCOSE_SETTINGS_PRESETS: GlucoseSettings[] = [
+  STANDARD_GLUCOSE_SETTINGS,
+  {
+    ...STANDARD_GLUCOSE_SETTINGS,
+    name: 'Pregnancy (type 1)',
+    ranges: { veryLow: 54, low: 63, high: 140, veryHigh: 250 },
+    gmi: { optimal: 6, poor: 7 }
+  },
+  {
+    ...STANDARD_GLUCOSE_SETTINGS,
+    name: 'Older / high risk',
+    ranges: { veryLow: 54, low: 70, high: 180, veryHigh: 250 },
+    gmi: { optimal: 7.5, poor: 8.5 }
+  }
+];
+
+const STORAGE_KEY = 'clinic-outcomes.glucose-settings';
+
+// Key of the settings used by clinics without their own, and by the all clinics report
+const DEFAULT_KEY = '*';
+
+/**
+ * The ranges and GMI cut points a report was computed with. Pre-aggregated
+ * reports carry none and use the standard ones.
+ * @param data - The clinic report
+ */
+export function thresholdsOf(data: ClinicData): ReportThresholds {
+  return data.thresholds ?? STANDARD_GLUCOSE_SETTINGS;
+}
+
+export function sameThresholds(a: ReportThresholds, b: ReportThresholds): boolean {
+  return (Object.keys(a.ranges) as (keyof GlucoseRanges)[]).every(key => a.ranges[key] === b.ranges[key]) &&
+    a.gmi.optimal === b.gmi.optimal && a.gmi.poor === b.gmi.poor;
+}
+
+/**
+ * Display label for a time-in-range tier, e.g. "Target Range (70-180)"
+ * @param tier - The tier, or one of the below / above range totals
+ * @param ranges - The ranges the report was computed with
+ * @param unit - The unit to show the boundaries in
+ */
+export function tierLabel(tier: keyof TimeInRange, ranges: GlucoseRanges, unit: GlucoseUnit = 'mg/dL'): string {
+  const f = (mgdl: number, steps = 0) => formatGlucose(mgdl, unit, steps);
+  switch (tier) {
+    case 'veryLow': return `${t('Very Low')} (<${f(ranges.veryLow)})`;
+    case 'low': return `${t('Low')} (${f(ranges.veryLow)}-${f(ranges.low, -1)})`;
+    case 'belowRange': return `${t('Below Range')} (<${f(ranges.low)})`;
+    case 'inRange': return `${t('Target Range')} (${f(ranges.low)}-${f(ranges.high)})`;
+    case 'aboveRange': return `${t('Above Range')} (>${f(ranges.high)})`;
+    case 'high': return `${t('High')} (${f(ranges.high, 1)}-${f(ranges.veryHigh)})`;
+    case 'veryHigh': return `${t('Very High')} (>${f(ranges.veryHigh)})`;
+  }
+}
+
+/**
+ * Format a GMI cut point for the current locale, e.g. "7" or in French "6,5"
+ * @param value - GMI (%)
+ */
+export function formatGmiCutPoint(value: number): string {
+  return formatNumber(value, Number.isInteger(value) ? 0 : 1);
+}
+
+/**
+ * Display label for a GMI bucket in the current locale, e.g. "7-8%"
+ * @param bucket - The GMI bucket
+ * @param gmi - The cut points the report was computed with
+ */
+export function gmiLabel(bucket: GmiBucket, gmi: GmiThresholds): string {
+  const optimal = formatGmiCutPoint(gmi.optimal);
+  const poor = formatGmiCutPoint(gmi.poor);
+  switch (bucket) {
+    case 'optimal': return `≤${optimal}%`;
+    case 'suboptimal': return `${optimal}-${poor}%`;
+    case 'poor': return `≥${poor}%`;
+  }
+}
+
+/**
+ * Check settings before they are saved
+ * @param settings - Settings entered on the settings screen or read from storage
+ * @returns Human readable problems; empty when the settings are valid
+ */
+export function validateGlucoseSettings(settings: GlucoseSettings): string[] {
+  const problems: string[] = [];
+  const { ranges, gmi, colors } = settings;
+  const bounds = [SENSOR_LIMITS.low, ranges.veryLow, ranges.low, ranges.high, ranges.veryHigh, SENSOR_LIMITS.high];
+
+  if (!settings.name?.trim()) {
+    problems.push(t('A name is required'));
+  }
+  if ([ranges.veryLow, ranges.low, ranges.high, ranges.veryHigh].some(value => !Number.isInteger(value))) {
+    problems.push(t('Glucose ranges must be whole numbers of mg/dL'));
+  } else if (bounds.some((value, index) => index > 0 && value <= bounds[index - 1])) {
+    problems.push(t('Glucose ranges must increase from very low to very high, between {low} and {high} mg/dL', SENSOR_LIMITS));
+  }
+  if (![gmi.optimal, gmi.poor].every(value => typeof value === 'number' && value >= 5 && value <= 12)) {
+    problems.push(t('GMI cut points must be between 5% and 12%'));
+  } else if (gmi.optimal >= gmi.poor) {
+    problems.push(t('The optimal GMI cut point must be below the poor one'));
+  }
+  Object.entries(colors).forEach(([key, color]) => {
+    if (!/^#[0-9a-f]{6}$/i.test(color)) {
+      problems.push(t('Colour for {key} must be a #rrggbb value', { key }));
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Report settings for all clinics and for individual clinics, persisted in
+ * local storage. A provider's reports use their clinic's settings.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GlucoseSettingsService {
+
+  private saved: { [clinicId: string]: GlucoseSettings } = this.load();
+
+  /**
+   * The settings reports for a clinic are computed and drawn with
+   * @param clinicId - The clinic, or null for the all clinics report
+   * @returns The clinic's own settings, otherwise the default ones
+   */
+  getSettings(clinicId: string | null): GlucoseSettings {
+    return (clinicId !== null ? this.saved[clinicId] : undefined) ?? this.saved[DEFAULT_KEY] ?? STANDARD_GLUCOSE_SETTINGS;
+  }
+
+  /**
+   * Whether the settings were saved for this clinic rather than inherited
+   * @param clinicId - The clinic, or null for the default settings
+   */
+  hasOwnSettings(clinicId: string | null): boolean {
+    return !!this.saved[clinicId ?? DEFAULT_KEY];
+  }
+
+  /**
+   * Save settings for one clinic, or the default for every clinic without its own
+   * @param clinicId - The clinic, or null for the default settings
+   * @param settings - The new settings; must pass validateGlucoseSettings
+   */
+  saveSettings(clinicId: string | null, settings: GlucoseSettings) {
+    const problems = validateGlucoseSettings(settings);
+    if (problems.length) {
+      throw new Error(`Invalid glucose settings: ${problems.join('; ')}`);
+    }
+    this.saved[clinicId ?? DEFAULT_KEY] = settings;
+    this.persist();
+  }
+
+  /**
+   * Remove saved settings, so the clinic falls back to the default ones and
+   * the default falls back to the standard ones
+   * @param clinicId - The clinic, or null for the default settings
+   */
+  resetSettings(clinicId: string | null) {
+    delete this.saved[clinicId ?? DEFAULT_KEY];
+    this.persist();
+  }
+
+  // Saved settings that are no longer valid are ignored
+  private load(): { [clinicId: string]: GlucoseSettings } {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+      return Object.fromEntries(Object.entries(saved as { [clinicId: string]: GlucoseSettings })
+        .filter(([, settings]) => validateGlucoseSettings(settings).length === 0));
+    } catch {
+      return {};
+    }
+  }
+
+  // Settings stay in memory when local storage is unavailable
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.saved));
+    } catch (error) {
+      console.warn('Glucose settings could not be saved to local storage:', error);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { GlucoseUnitService, defaultGlucoseUnit, formatGlucose, fromGlucoseUnit, toGlucoseUnit } from './glucose-unit.service';
+import { currentLocale, useLocale } from './i18n.service';
+
+describe('GlucoseUnitService', () => {
+  beforeEach(() => localStorage.removeItem('clinic-outcomes.glucose-unit'));
+
+  afterEach(() => localStorage.removeItem('clinic-outcomes.glucose-unit'));
+
+  it('should convert mg/dL to mmol/L to one decimal place', () => {
+    expect(toGlucoseUnit(180, 'mmol/L')).toBe(10);
+    expect(toGlucoseUnit(70, 'mmol/L')).toBe(3.9);
+    expect(toGlucoseUnit(54, 'mmol/L')).toBe(3);
+    expect(toGlucoseUnit(142.6, 'mg/dL')).toBe(143);
+  });
+
+  it('should convert entered mmol/L values back to whole mg/dL', () => {
+    expect(fromGlucoseUnit(10, 'mmol/L')).toBe(180);
+    expect(fromGlucoseUnit(3.9, 'mmol/L')).toBe(70);
+    expect(fromGlucoseUnit(180, 'mg/dL')).toBe(180);
+  });
+
+  it('should keep the trailing zero of mmol/L values', () => {
+    expect(formatGlucose(180, 'mmol/L')).toBe('10.0');
+    expect(formatGlucose(180, 'mg/dL')).toBe('180');
+  });
+
+  it('should step to the next displayed value either side of a boundary', () => {
+    expect(formatGlucose(180, 'mmol/L', 1)).toBe('10.1');
+    expect(formatGlucose(70, 'mmol/L', -1)).toBe('3.8');
+    expect(formatGlucose(180, 'mg/dL', 1)).toBe('181');
+  });
+
+  it('should write mmol/L values with the locale\'s decimal separator', () => {
+    const initial = currentLocale();
+    useLocale('fr');
+    try {
+      expect(formatGlucose(70, 'mmol/L')).toBe('3,9');
+    } finally {
+      useLocale(initial);
+    }
+  });
+
+  it('should default from the locale region', () => {
+    expect(defaultGlucoseUnit('en-US')).toBe('mg/dL');
+    expect(defaultGlucoseUnit('en-GB')).toBe('mmol/L');
+    expect(defaultGlucoseUnit('fr-CA')).toBe('mmol/L');
+    expect(defaultGlucoseUnit('de')).toBe('mg/dL');
+    expect(defaultGlucoseUnit('not a locale')).toBe('mg/dL');
+  });
+
+  it('should remember the chosen unit', () => {
+    new GlucoseUnitService().setUnit('mmol/L');
+
+    expect(new GlucoseUnitService().unit).toBe('mmol/L');
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable } from '@angular/core';
+import { MGDL_PER_MMOLL } from './cgm-import.service';
+import { formatNumber } from './i18n.service';
+
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+// Regions whose clinics report glucose in mmol/L; everywhere else defaults to mg/dL
+const MMOLL_REGIONS = [
+  'AU', 'CA', 'CH', 'CN', 'CZ', 'DK', 'EE', 'FI', 'GB', 'HK', 'HR', 'IE', 'IS', 'KZ', 'LT',
+  'LV', 'MY', 'NL', 'NO', 'NZ', 'RU', 'SE', 'SG', 'SI', 'SK', 'UA', 'ZA'
+];
+
+const STORAGE_KEY = 'clinic-outcomes.glucose-unit';
+
+/**
+ * Convert a glucose value in mg/dL, as every metric is stored, to a display unit
+ * @param mgdl - Glucose in mg/dL
+ * @param unit - The display unit
+ * @returns The value rounded to whole mg/dL or to 0.1 mmol/L
+ */
+export function toGlucoseUnit(mgdl: number, unit: GlucoseUnit): number {
+  return unit === 'mmol/L' ? Math.round((mgdl / MGDL_PER_MMOLL) * 10) / 10 : Math.round(mgdl);
+}
+
+/**
+ * Convert a value entered in a display unit back to whole mg/dL
+ * @param value - Glucose in the display unit
+ * @param unit - The display unit
+ */
+export function fromGlucoseUnit(value: number, unit: GlucoseUnit): number {
+  return Math.round(unit === 'mmol/L' ? value * MGDL_PER_MMOLL : value);
+}
+
+/**
+ * Format a glucose value without its unit for the current locale, e.g. "180",
+ * "10.0" or in French "10,0"
+ * @param mgdl - Glucose in mg/dL
+ * @param unit - The display unit
+ * @param steps - Display increments to move by, e.g. 1 for the first value
+ *   above a boundary: 181 mg/dL, but 10.1 rather than 10.0 mmol/L
+ */
+export function formatGlucose(mgdl: number, unit: GlucoseUnit, steps = 0): string {
+  if (unit === 'mmol/L') {
+    return formatNumber((Math.round(toGlucoseUnit(mgdl, unit) * 10) + steps) / 10, 1);
+  }
+  return formatNumber(toGlucoseUnit(mgdl, unit) + steps);
+}
+
+/**
+ * The unit clinics in a locale's region usually report in
+ * @param locale - A BCP 47 locale such as 'en-GB'
+ */
+export function defaultGlucoseUnit(locale: string): GlucoseUnit {
+  let region: string | undefined;
+  try {
+    region = new Intl.Locale(locale).maximize().region;
+  } catch {
+    region = undefined;
+  }
+  return region && MMOLL_REGIONS.includes(region) ? 'mmol/L' : 'mg/dL';
+}
+
+/**
+ * The glucose unit this user reads reports in. Saved in local storage,
+ * and taken from the browser locale until the user picks one.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GlucoseUnitService {
+
+  private current: GlucoseUnit = this.load();
+
+  get unit(): GlucoseUnit {
+    return this.current;
+  }
+
+  setUnit(unit: GlucoseUnit) {
+    this.current = unit;
+    try {
+      localStorage.setItem(STORAGE_KEY, unit);
+    } catch (error) {
+      console.warn('Glucose unit could not be saved to local storage:', error);
+    }
+  }
+
+  private load(): GlucoseUnit {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved === 'mg/dL' || saved === 'mmol/L') {
+        return saved;
+      }
+    } catch {
+      // Fall through to the locale default
+    }
+    return defaultGlucoseUnit(typeof navigator !== 'undefined' ? navigator.language : 'en-US');
+  }
+}
@@ -0,0 +1,59 @@
+import { ES } from './i18n/es';
+import { FR } from './i18n/fr';
+import { currentLocale, defaultLocale, formatDate, formatDateRange, formatNumber, t, useLocale } from './i18n.service';
+
+describe('I18nService', () => {
+  const initial = currentLocale();
+
+  afterEach(() => useLocale(initial));
+
+  it('should pick the supported locale of a browser language', () => {
+    expect(defaultLocale('es-MX')).toBe('es');
+    expect(defaultLocale('fr')).toBe('fr');
+    expect(defaultLocale('de-DE')).toBe('en');
+  });
+
+  it('should translate and fill placeholders', () => {
+    useLocale('es');
+    expect(t('Last {days} days', { days: 30 })).toBe('Últimos 30 días');
+
+    useLocale('fr');
+    expect(t('Page {page} of {pages}', { page: 1, pages: 3 })).toBe('Page 1 sur 3');
+  });
+
+  it('should fall back to the English text', () => {
+    useLocale('fr');
+    expect(t('Riverside clinic')).toBe('Riverside clinic');
+
+    useLocale('en');
+    expect(t('{days} days', { days: 7 })).toBe('7 days');
+  });
+
+  it('should translate every text into Spanish and French with the same placeholders', () => {
+    const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+    expect(Object.keys(FR).sort()).toEqual(Object.keys(ES).sort());
+    Object.keys(ES).forEach(english => {
+      expect(placeholders(ES[english])).withContext(`es: ${english}`).toEqual(placeholders(english));
+      expect(placeholders(FR[english])).withContext(`fr: ${english}`).toEqual(placeholders(english));
+    });
+  });
+
+  it('should format ISO dates and numbers for the locale', () => {
+    useLocale('fr');
+    expect(formatDate('2024-01-31')).toBe('31 janv. 2024');
+    expect(formatNumber(6.7, 1)).toBe('6,7');
+
+    useLocale('en');
+    expect(formatDate('2024-01-31')).toBe('Jan 31, 2024');
+  });
+
+  it('should format ISO date ranges for the locale', () => {
+    useLocale('es');
+    expect(formatDateRange('2024-01-01/2024-01-31')).toBe('1–31 ene 2024');
+
+    useLocale('en');
+    // ICU puts thin spaces around the dash
+    expect(formatDateRange('2024-01-01/2024-02-29').replace(/\s/g, ' ')).toBe('Jan 1 – Feb 29, 2024');
+  });
+});
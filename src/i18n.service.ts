@@ -0,0 +1,136 @@
+import { Injectable } from '@angular/core';
+import { ES } from './i18n/es';
+import { FR } from './i18n/fr';
+
+export type AppLocale = 'en' | 'es' | 'fr';
+
+// English text mapped to its translation; missing entries fall back to English
+export type Translations = { [english: string]: string };
+
+export const APP_LOCALES: { id: AppLocale; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'es', label: 'Español' },
+  { id: 'fr', label: 'Français' }
+];
+
+const TRANSLATIONS: { [locale in AppLocale]: Translations } = { en: {}, es: ES, fr: FR };
+
+const STORAGE_KEY = 'clinic-outcomes.locale';
+
+/**
+ * The supported locale closest to a browser language, English otherwise
+ * @param language - A BCP 47 language tag such as 'fr-CA'
+ */
+export function defaultLocale(language: string): AppLocale {
+  const base = language.toLowerCase().split('-')[0];
+  return APP_LOCALES.find(locale => locale.id === base)?.id ?? 'en';
+}
+
+function loadLocale(): AppLocale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (APP_LOCALES.some(locale => locale.id === saved)) {
+      return saved as AppLocale;
+    }
+  } catch {
+    // Fall through to the browser language
+  }
+  return defaultLocale(typeof navigator !== 'undefined' ? navigator.language : 'en');
+}
+
+// Chosen once at startup; changing locale reloads the app, as LOCALE_ID cannot change
+let activeLocale: AppLocale = loadLocale();
+
+export function currentLocale(): AppLocale {
+  return activeLocale;
+}
+
+/**
+ * Switch the locale text and formatting use, without saving it
+ * @param locale - The locale to use
+ */
+export function useLocale(locale: AppLocale) {
+  activeLocale = locale;
+}
+
+/**
+ * Translate English text into the current locale
+ * @param text - The English text; {name} placeholders are filled from params
+ * @param params - Placeholder values; null, as pipes give for missing values, is left blank
+ */
+export function t(text: string, params: { [name: string]: string | number | null } = {}): string {
+  const translated = TRANSLATIONS[activeLocale][text] ?? text;
+  return translated.replace(/\{(\w+)\}/g, (placeholder, name) => name in params ? String(params[name] ?? '') : placeholder);
+}
+
+/**
+ * Format an ISO date or timestamp for the current locale
+ * @param value - An ISO 8601 date or timestamp
+ * @param options - Intl options; dates without a time are in UTC so they do not shift a day
+ */
+export function formatDate(value: string | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeZone: 'UTC' }): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return isNaN(date.getTime()) ? String(value) : new Intl.DateTimeFormat(activeLocale, options).format(date);
+}
+
+/**
+ * Format an ISO timestamp with its time, in the user's time zone
+ * @param value - An ISO 8601 timestamp
+ */
+export function formatDateTime(value: string | Date): string {
+  return formatDate(value, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Format an ISO "YYYY-MM-DD/YYYY-MM-DD" range for the current locale
+ * @param range - The ISO 8601 interval
+ */
+export function formatDateRange(range: string): string {
+  const [from, to] = range.split('/');
+  if (!from || !to) {
+    return range;
+  }
+  // Intl picks the locale's own separator, e.g. "1–31 janv. 2024"
+  return new Intl.DateTimeFormat(activeLocale, { dateStyle: 'medium', timeZone: 'UTC' })
+    .formatRange(new Date(from), new Date(to));
+}
+
+/**
+ * Format a number for the current locale
+ * @param value - The number
+ * @param fractionDigits - Decimal places to show
+ */
+export function formatNumber(value: number, fractionDigits = 0): string {
+  return new Intl.NumberFormat(activeLocale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  }).format(value);
+}
+
+/**
+ * The language the dashboard is shown in. Saved in local storage and taken
+ * from the browser language until the user picks one.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class I18nService {
+
+  get locale(): AppLocale {
+    return activeLocale;
+  }
+
+  /**
+   * Save a new locale and reload, so every view, chart and pipe picks it up
+   * @param locale - The locale to switch to
+   */
+  setLocale(locale: AppLocale) {
+    try {
+      localStorage.setItem(STORAGE_KEY, locale);
+    } catch (error) {
+      console.warn('Locale could not be saved to local storage:', error);
+    }
+    useLocale(locale);
+    location.reload();
+  }
+}
@@ -0,0 +1,261 @@
+import { Translations } from '../i18n.service';
+
+// Spanish, keyed by the English text
+export const ES: Translations = {
+  '({position} of {count})': '({position} de {count})',
+  'A name is required': 'El nombre es obligatorio',
+  'Above Range': 'Por encima del rango',
+  'Above range': 'Por encima del rango',
+  'Above {value}': 'Por encima de {value}',
+  'Adult (18+)': 'Adulto (18+)',
+  'Age': 'Edad',
+  'Alert rules': 'Reglas de alerta',
+  'All clinics': 'Todas las clínicas',
+  'All patients': 'Todos los pacientes',
+  'All providers': 'Todos los profesionales',
+  'Ambulatory Glucose Profile': 'Perfil ambulatorio de glucosa',
+  'Any': 'Cualquiera',
+  'Average': 'Promedio',
+  'AVERAGE GMI': 'GMI MEDIO',
+  'Average GMI': 'GMI medio',
+  'Average GMI (%)': 'GMI medio (%)',
+  'Based on the {name} ranges for Time in range.': 'Según los rangos {name} del tiempo en rango.',
+  'Below Range': 'Por debajo del rango',
+  'Below range': 'Por debajo del rango',
+  'Below Range (%)': 'Por debajo del rango (%)',
+  'Below {value}': 'Por debajo de {value}',
+  'better': 'mejor',
+  'Check your connection and try again.': 'Compruebe la conexión e inténtelo de nuevo.',
+  'Choose Dexcom Clarity / LibreView CSV': 'Elegir CSV de Dexcom Clarity / LibreView',
+  'Clear': 'Borrar',
+  'Clinic': 'Clínica',
+  'Clinic Outcomes': 'Resultados de la clínica',
+  'Clinic Outcomes Report': 'Informe de resultados de la clínica',
+  'clinicId and providerId are required': 'clinicId y providerId son obligatorios',
+  'Close': 'Cerrar',
+  'Cohort': 'Cohorte',
+  'Cohort too small to report': 'Cohorte demasiado pequeña para el informe',
+  'Colour for {key} must be a #rrggbb value': 'El color de {key} debe tener el formato #rrggbb',
+  'Colour-blind safe colours and patterns': 'Colores y tramas aptos para daltonismo',
+  'Compare with': 'Comparar con',
+  'Consensus targets': 'Objetivos del consenso',
+  'Contacted on {date}': 'Contactado el {date}',
+  'Current': 'Actual',
+  'Daily glucose profiles': 'Perfiles diarios de glucosa',
+  'Data as of {date}': 'Datos a {date}',
+  'Data last updated': 'Datos actualizados por última vez',
+  'Data quality': 'Calidad de los datos',
+  'dataQuality.enrolledCount {count} does not equal patientCount plus the excluded patients': 'dataQuality.enrolledCount {count} no es igual a patientCount más los pacientes excluidos',
+  'dataQuality.sensorWear.distribution counts {measured} patients but only {enrolled} are enrolled': 'dataQuality.sensorWear.distribution cuenta {measured} pacientes pero solo hay {enrolled} inscritos',
+  'Date': 'Fecha',
+  'Date range': 'Intervalo de fechas',
+  'dateRange "{value}" is not a valid YYYY-MM-DD/YYYY-MM-DD range': 'dateRange "{value}" no es un intervalo AAAA-MM-DD/AAAA-MM-DD válido',
+  'Days of data': 'Días con datos',
+  'Days with data': 'Días con datos',
+  'Default (all clinics)': 'Predeterminada (todas las clínicas)',
+  'Device': 'Dispositivo',
+  'Device time zone': 'Zona horaria del dispositivo',
+  'Diabetes type': 'Tipo de diabetes',
+  'Down': 'Baja',
+  'Duplicate reading for the same time': 'Lectura duplicada para la misma hora',
+  'Duplicate upload: nothing new was added': 'Carga duplicada: no se ha añadido nada nuevo',
+  'Each line is one day of sensor readings': 'Cada línea es un día de lecturas del sensor',
+  'Enrolled patients': 'Pacientes inscritos',
+  'Excluded': 'Excluidos',
+  'Excluded: fewer than {days} days of data': 'Excluidos: menos de {days} días de datos',
+  'Excluded: no readings in the period': 'Excluidos: sin lecturas en el periodo',
+  'Export PDF': 'Exportar PDF',
+  'Exporting…': 'Exportando…',
+  'Fewer than {count} patients match the selected cohort. Results are hidden so individual patients cannot be identified. Widen the cohort or the date range.': 'Menos de {count} pacientes coinciden con la cohorte seleccionada. Los resultados se ocultan para que no se pueda identificar a ningún paciente. Amplíe la cohorte o el intervalo de fechas.',
+  'Fewer than {days} days of data': 'Menos de {days} días de datos',
+  'File name': 'Nombre del archivo',
+  'From': 'Desde',
+  'Glucose Management Indicator (GMI)': 'Indicador de gestión de la glucosa (GMI)',
+  'Glucose range': 'Rango de glucosa',
+  'Glucose ranges ({unit})': 'Rangos de glucosa ({unit})',
+  'Glucose ranges and GMI thresholds': 'Rangos de glucosa y umbrales de GMI',
+  'Glucose ranges must be whole numbers of mg/dL': 'Los rangos de glucosa deben ser números enteros de mg/dL',
+  'Glucose ranges must increase from very low to very high, between {low} and {high} mg/dL': 'Los rangos de glucosa deben aumentar de muy bajo a muy alto, entre {low} y {high} mg/dL',
+  'Glucose unit': 'Unidad de glucosa',
+  'Glucose variability (CV)': 'Variabilidad de la glucosa (CV)',
+  'GMI buckets (%)': 'Grupos de GMI (%)',
+  'GMI change since the previous period': 'Cambio del GMI desde el periodo anterior',
+  'GMI cut points must be between 5% and 12%': 'Los puntos de corte del GMI deben estar entre el 5 % y el 12 %',
+  'GMI distribution': 'Distribución del GMI',
+  'GMI distribution (comparison period)': 'Distribución del GMI (periodo de comparación)',
+  'gmi.average {average} is outside the plausible {min}-{max}% range': 'gmi.average {average} está fuera del intervalo plausible de {min}-{max}%',
+  'Goal': 'Objetivo',
+  'goal {goal}': 'objetivo {goal}',
+  'High': 'Alto',
+  'High (%)': 'Alto (%)',
+  'High priority': 'Prioridad alta',
+  'Highest': 'Máximo',
+  'Import device data': 'Importar datos del dispositivo',
+  'Importing…': 'Importando…',
+  'In range': 'En rango',
+  'In Range (%)': 'En rango (%)',
+  'In range (%)': 'En rango (%)',
+  'Included': 'Incluidos',
+  'Info': 'Información',
+  'Insulin pump': 'Bomba de insulina',
+  'International Consensus targets': 'Objetivos del Consenso Internacional',
+  'Invalid glucose value "{value}"': 'Valor de glucosa no válido "{value}"',
+  'Invalid timestamp "{value}"': 'Fecha y hora no válidas "{value}"',
+  'Language': 'Idioma',
+  'Last updated': 'Última actualización',
+  'Last upload': 'Última carga',
+  'Last {days} days': 'Últimos {days} días',
+  'lastUpdated "{value}" is not an ISO 8601 timestamp': 'lastUpdated "{value}" no es una marca de tiempo ISO 8601',
+  'Line {line}': 'Línea {line}',
+  'Loaded on {date}; the data source had not been updated to the end of the period.': 'Cargados el {date}; la fuente de datos no se había actualizado hasta el final del periodo.',
+  'Loading report…': 'Cargando el informe…',
+  'Loading sensor readings…': 'Cargando lecturas del sensor…',
+  'Low': 'Bajo',
+  'Low (%)': 'Bajo (%)',
+  'Low priority': 'Prioridad baja',
+  'Lowest': 'Mínimo',
+  'Mark contacted': 'Marcar como contactado',
+  'Mark reviewed': 'Marcar como revisado',
+  'Mean glucose': 'Glucosa media',
+  'Mean sensor wear': 'Uso medio del sensor',
+  'Mean sensor wear (%)': 'Uso medio del sensor (%)',
+  'Measure': 'Medida',
+  'Median': 'Mediana',
+  'Median, 25-75th and 5-95th percentiles by time of day': 'Mediana y percentiles 25-75 y 5-95 por hora del día',
+  'Medium priority': 'Prioridad media',
+  'Met': 'Cumplido',
+  'Metric': 'Métrica',
+  'Missing glucose value': 'Falta el valor de glucosa',
+  'Monthly': 'Mensual',
+  'Name': 'Nombre',
+  'No change': 'Sin cambios',
+  'No data for this period': 'No hay datos para este periodo',
+  'No patients break the alert rules.': 'Ningún paciente incumple las reglas de alerta.',
+  'No patients found': 'No se han encontrado pacientes',
+  'No patients have at least {days} days of SG data in the selected date range. Try a longer range or import device data.': 'Ningún paciente tiene al menos {days} días de datos de GS en el intervalo seleccionado. Pruebe con un intervalo más largo o importe datos del dispositivo.',
+  'No readings in the period': 'Sin lecturas en el periodo',
+  'No sensor readings are available for this patient.': 'No hay lecturas del sensor para este paciente.',
+  'Not assigned': 'Sin asignar',
+  'Not met': 'No cumplido',
+  'Not reported': 'No disponible',
+  'Note': 'Nota',
+  'Note for {patient}': 'Nota para {patient}',
+  'Older / high risk': 'Mayores / alto riesgo',
+  'Only patients with a minimum of {days} days of SG data are included.': 'Solo se incluyen pacientes con un mínimo de {days} días de datos de GS.',
+  'Only patients with a minimum of {days} days of SG data are included. Last updated on {date}': 'Solo se incluyen pacientes con un mínimo de {days} días de datos de GS. Última actualización: {date}',
+  'Optimal at or below': 'Óptimo hasta',
+  'Paediatric (<18)': 'Pediátrico (<18)',
+  'Page {page} of {pages}': 'Página {page} de {pages}',
+  'Patient': 'Paciente',
+  'Patient count': 'Número de pacientes',
+  'Patient ID': 'ID del paciente',
+  'Patient {id}': 'Paciente {id}',
+  'Patients': 'Pacientes',
+  'Patients imported without a clinic only appear in the all clinics report.': 'Los pacientes importados sin clínica solo aparecen en el informe de todas las clínicas.',
+  'Patients included': 'Pacientes incluidos',
+  'Patients to follow up': 'Pacientes a seguir',
+  'Patients with GMI {bucket}': 'Pacientes con GMI {bucket}',
+  'Patients with GMI {bucket} (%)': 'Pacientes con GMI {bucket} (%)',
+  'Patients with GMI {value}% or above': 'Pacientes con GMI del {value} % o más',
+  'Patients with GMI {value}% or below': 'Pacientes con GMI del {value} % o menos',
+  'Payload is not a list of provider reports': 'La respuesta no es una lista de informes por profesional',
+  'Payload is not an object': 'La respuesta no es un objeto',
+  'Period': 'Periodo',
+  'Poor at or above': 'Deficiente desde',
+  'Pregnancy (type 1)': 'Embarazo (tipo 1)',
+  'Previous period': 'Periodo anterior',
+  'Priority': 'Prioridad',
+  'Provider': 'Profesional',
+  'Quarter to date': 'Trimestre hasta la fecha',
+  'Range': 'Rango',
+  'Readings (%)': 'Lecturas (%)',
+  'Report generated': 'Informe generado',
+  'Report {number}: {problem}': 'Informe {number}: {problem}',
+  'Reporting days': 'Días del informe',
+  'Reporting period': 'Periodo del informe',
+  'Reports for a clinic and its providers are computed and drawn with these settings. Clinics without their own settings use the default ones.': 'Los informes de una clínica y sus profesionales se calculan y dibujan con esta configuración. Las clínicas sin configuración propia usan la predeterminada.',
+  'Reset to defaults': 'Restablecer valores predeterminados',
+  'Reset to standard': 'Restablecer la estándar',
+  'Retry': 'Reintentar',
+  'Reviewed on {date}': 'Revisado el {date}',
+  'Save': 'Guardar',
+  'Saved': 'Guardado',
+  'Saved on {date}; the latest data could not be loaded.': 'Guardados el {date}; no se pudieron cargar los datos más recientes.',
+  'Search patient ID': 'Buscar ID del paciente',
+  'Sensor wear': 'Uso del sensor',
+  'Settings': 'Configuración',
+  'Settings for': 'Configuración de',
+  'Share of patients': 'Porcentaje de pacientes',
+  'Show data table': 'Mostrar tabla de datos',
+  'Showing {count} patients from the last {days} days of available data, {range}': 'Se muestran {count} pacientes de los últimos {days} días de datos disponibles, {range}',
+  'Stale': 'Desactualizados',
+  'Standard': 'Estándar',
+  'Start from': 'Partir de',
+  'Status': 'Estado',
+  'Summary': 'Resumen',
+  'Target': 'Objetivo',
+  'Target Range': 'Rango objetivo',
+  'Target range from': 'Rango objetivo desde',
+  'Target range to': 'Rango objetivo hasta',
+  'The clinic data failed validation, so no charts are shown:': 'Los datos de la clínica no han superado la validación, por lo que no se muestran gráficos:',
+  'The data export could not be generated': 'No se ha podido generar la exportación de datos',
+  'The optimal GMI cut point must be below the poor one': 'El punto de corte óptimo del GMI debe ser inferior al deficiente',
+  'The PDF report could not be generated': 'No se ha podido generar el informe PDF',
+  'The report could not be loaded': 'No se ha podido cargar el informe',
+  'The report data is invalid': 'Los datos del informe no son válidos',
+  'Therapy': 'Tratamiento',
+  'There is no data for {option} to compare with.': 'No hay datos de {option} con los que comparar.',
+  'This data source only provides figures computed with the standard ranges, so the {name} settings are not applied.': 'Esta fuente de datos solo ofrece cifras calculadas con los rangos estándar, por lo que no se aplica la configuración {name}.',
+  'Threshold': 'Umbral',
+  'Time': 'Hora',
+  'Time above {value}': 'Tiempo por encima de {value}',
+  'Time below {value}': 'Tiempo por debajo de {value}',
+  'Time in range': 'Tiempo en rango',
+  'Time in range (%)': 'Tiempo en rango (%)',
+  'Time in range {from}-{to}': 'Tiempo en rango {from}-{to}',
+  'TIR': 'TIR',
+  'To': 'Hasta',
+  'Trends over the last year': 'Tendencias del último año',
+  'Type 1': 'Tipo 1',
+  'Type 2': 'Tipo 2',
+  'Unknown time zone "{timeZone}": use an IANA name such as Europe/Madrid': 'Zona horaria desconocida "{timeZone}": use un nombre IANA como Europe/Madrid',
+  'Unrecognised file: expected a Dexcom Clarity or LibreView CSV export': 'Archivo no reconocido: se esperaba una exportación CSV de Dexcom Clarity o LibreView',
+  'Up': 'Sube',
+  'Up to date': 'Actualizados',
+  'Use default settings': 'Usar la configuración predeterminada',
+  'Using the default settings': 'Usa la configuración predeterminada',
+  'Value': 'Valor',
+  'Very High': 'Muy alto',
+  'Very high': 'Muy alto',
+  'Very high (%)': 'Muy alto (%)',
+  'Very high above': 'Muy alto por encima de',
+  'Very Low': 'Muy bajo',
+  'Very low': 'Muy bajo',
+  'Very low (%)': 'Muy bajo (%)',
+  'Very low below': 'Muy bajo por debajo de',
+  'vs': 'frente a',
+  'Weekly': 'Semanal',
+  'worse': 'peor',
+  '{chart} chart. Use the arrow keys to move between periods.': 'Gráfico {chart}. Use las flechas para moverse entre periodos.',
+  '{chart} chart. Use the arrow keys to move between segments, and Enter to list their patients.': 'Gráfico {chart}. Use las flechas para moverse entre segmentos e Intro para ver sus pacientes.',
+  '{chart} chart. Use the arrow keys to move between segments.': 'Gráfico {chart}. Use las flechas para moverse entre segmentos.',
+  '{count} already imported': '{count} ya importadas',
+  '{count} new readings': '{count} lecturas nuevas',
+  '{count} non-glucose rows skipped': '{count} filas sin glucosa omitidas',
+  '{count} patients': '{count} pacientes',
+  '{count} rows rejected': '{count} filas rechazadas',
+  '{current} compared with {baseline}': '{current} comparado con {baseline}',
+  '{days} days': '{days} días',
+  '{field} is missing': 'Falta {field}',
+  '{field} is not an object': '{field} no es un objeto',
+  '{field} must be a non-negative whole number': '{field} debe ser un número entero no negativo',
+  '{field} must be a percentage between 0 and 100': '{field} debe ser un porcentaje entre 0 y 100',
+  '{field} must be a positive whole number': '{field} debe ser un número entero positivo',
+  '{format} ({unit}) for {patient}:': '{format} ({unit}) de {patient}:',
+  '{label} add up to {actual}% instead of {expected}%': '{label} suman {actual}% en lugar de {expected}%',
+  '{option} covers the same dates as the current period. Choose another comparison.': '{option} abarca las mismas fechas que el periodo actual. Elija otra comparación.',
+  '{option} has too few patients in the cohort to compare with.': '{option} tiene muy pocos pacientes en la cohorte para comparar.',
+  '{p}th percentile': 'Percentil {p}',
+  '{shown} of {total} patients': '{shown} de {total} pacientes',
+  '…and {count} more': '…y {count} más'
+};
@@ -0,0 +1,261 @@
+import { Translations } from '../i18n.service';
+
+// French, keyed by the English text
+export const FR: Translations = {
+  '({position} of {count})': '({position} sur {count})',
+  'A name is required': 'Un nom est obligatoire',
+  'Above Range': 'Au-dessus de la cible',
+  'Above range': 'Au-dessus de la cible',
+  'Above {value}': 'Au-dessus de {value}',
+  'Adult (18+)': 'Adulte (18+)',
+  'Age': 'Âge',
+  'Alert rules': 'Règles d\'alerte',
+  'All clinics': 'Toutes les cliniques',
+  'All patients': 'Tous les patients',
+  'All providers': 'Tous les praticiens',
+  'Ambulatory Glucose Profile': 'Profil glycémique ambulatoire',
+  'Any': 'Tous',
+  'Average': 'Moyenne',
+  'AVERAGE GMI': 'GMI MOYEN',
+  'Average GMI': 'GMI moyen',
+  'Average GMI (%)': 'GMI moyen (%)',
+  'Based on the {name} ranges for Time in range.': 'D\'après les plages {name} du temps dans la cible.',
+  'Below Range': 'Sous la cible',
+  'Below range': 'Sous la cible',
+  'Below Range (%)': 'Sous la cible (%)',
+  'Below {value}': 'Sous {value}',
+  'better': 'mieux',
+  'Check your connection and try again.': 'Vérifiez votre connexion et réessayez.',
+  'Choose Dexcom Clarity / LibreView CSV': 'Choisir un CSV Dexcom Clarity / LibreView',
+  'Clear': 'Effacer',
+  'Clinic': 'Clinique',
+  'Clinic Outcomes': 'Résultats de la clinique',
+  'Clinic Outcomes Report': 'Rapport des résultats de la clinique',
+  'clinicId and providerId are required': 'clinicId et providerId sont obligatoires',
+  'Close': 'Fermer',
+  'Cohort': 'Cohorte',
+  'Cohort too small to report': 'Cohorte trop petite pour le rapport',
+  'Colour for {key} must be a #rrggbb value': 'La couleur de {key} doit être au format #rrggbb',
+  'Colour-blind safe colours and patterns': 'Couleurs et motifs adaptés aux daltoniens',
+  'Compare with': 'Comparer avec',
+  'Consensus targets': 'Objectifs du consensus',
+  'Contacted on {date}': 'Contacté le {date}',
+  'Current': 'Actuel',
+  'Daily glucose profiles': 'Profils glycémiques quotidiens',
+  'Data as of {date}': 'Données au {date}',
+  'Data last updated': 'Dernière mise à jour des données',
+  'Data quality': 'Qualité des données',
+  'dataQuality.enrolledCount {count} does not equal patientCount plus the excluded patients': 'dataQuality.enrolledCount {count} n\'est pas égal à patientCount plus les patients exclus',
+  'dataQuality.sensorWear.distribution counts {measured} patients but only {enrolled} are enrolled': 'dataQuality.sensorWear.distribution compte {measured} patients mais seuls {enrolled} sont inscrits',
+  'Date': 'Date',
+  'Date range': 'Période',
+  'dateRange "{value}" is not a valid YYYY-MM-DD/YYYY-MM-DD range': 'dateRange « {value} » n\'est pas une période AAAA-MM-JJ/AAAA-MM-JJ valide',
+  'Days of data': 'Jours de données',
+  'Days with data': 'Jours avec données',
+  'Default (all clinics)': 'Par défaut (toutes les cliniques)',
+  'Device': 'Appareil',
+  'Device time zone': 'Fuseau horaire de l\'appareil',
+  'Diabetes type': 'Type de diabète',
+  'Down': 'En baisse',
+  'Duplicate reading for the same time': 'Mesure en double pour la même heure',
+  'Duplicate upload: nothing new was added': 'Import en double : rien de nouveau n\'a été ajouté',
+  'Each line is one day of sensor readings': 'Chaque ligne représente une journée de mesures du capteur',
+  'Enrolled patients': 'Patients inscrits',
+  'Excluded': 'Exclus',
+  'Excluded: fewer than {days} days of data': 'Exclus : moins de {days} jours de données',
+  'Excluded: no readings in the period': 'Exclus : aucune mesure sur la période',
+  'Export PDF': 'Exporter en PDF',
+  'Exporting…': 'Export en cours…',
+  'Fewer than {count} patients match the selected cohort. Results are hidden so individual patients cannot be identified. Widen the cohort or the date range.': 'Moins de {count} patients correspondent à la cohorte sélectionnée. Les résultats sont masqués pour qu\'aucun patient ne puisse être identifié. Élargissez la cohorte ou la période.',
+  'Fewer than {days} days of data': 'Moins de {days} jours de données',
+  'File name': 'Nom du fichier',
+  'From': 'Du',
+  'Glucose Management Indicator (GMI)': 'Indicateur de gestion du glucose (GMI)',
+  'Glucose range': 'Plage de glucose',
+  'Glucose ranges ({unit})': 'Plages glycémiques ({unit})',
+  'Glucose ranges and GMI thresholds': 'Plages glycémiques et seuils de GMI',
+  'Glucose ranges must be whole numbers of mg/dL': 'Les plages glycémiques doivent être des nombres entiers de mg/dL',
+  'Glucose ranges must increase from very low to very high, between {low} and {high} mg/dL': 'Les plages glycémiques doivent croître de très bas à très haut, entre {low} et {high} mg/dL',
+  'Glucose unit': 'Unité de glycémie',
+  'Glucose variability (CV)': 'Variabilité glycémique (CV)',
+  'GMI buckets (%)': 'Tranches de GMI (%)',
+  'GMI change since the previous period': 'Évolution du GMI depuis la période précédente',
+  'GMI cut points must be between 5% and 12%': 'Les seuils de GMI doivent être compris entre 5 % et 12 %',
+  'GMI distribution': 'Répartition du GMI',
+  'GMI distribution (comparison period)': 'Répartition du GMI (période de comparaison)',
+  'gmi.average {average} is outside the plausible {min}-{max}% range': 'gmi.average {average} est en dehors de la plage plausible de {min} à {max} %',
+  'Goal': 'Objectif',
+  'goal {goal}': 'objectif {goal}',
+  'High': 'Haut',
+  'High (%)': 'Haut (%)',
+  'High priority': 'Priorité haute',
+  'Highest': 'Maximum',
+  'Import device data': 'Importer les données de l\'appareil',
+  'Importing…': 'Import en cours…',
+  'In range': 'Dans la cible',
+  'In Range (%)': 'Dans la cible (%)',
+  'In range (%)': 'Dans la cible (%)',
+  'Included': 'Inclus',
+  'Info': 'Informations',
+  'Insulin pump': 'Pompe à insuline',
+  'International Consensus targets': 'Objectifs du consensus international',
+  'Invalid glucose value "{value}"': 'Valeur de glycémie non valide « {value} »',
+  'Invalid timestamp "{value}"': 'Horodatage non valide « {value} »',
+  'Language': 'Langue',
+  'Last updated': 'Dernière mise à jour',
+  'Last upload': 'Dernier import',
+  'Last {days} days': '{days} derniers jours',
+  'lastUpdated "{value}" is not an ISO 8601 timestamp': 'lastUpdated « {value} » n\'est pas un horodatage ISO 8601',
+  'Line {line}': 'Ligne {line}',
+  'Loaded on {date}; the data source had not been updated to the end of the period.': 'Chargées le {date} ; la source de données n\'avait pas été mise à jour jusqu\'à la fin de la période.',
+  'Loading report…': 'Chargement du rapport…',
+  'Loading sensor readings…': 'Chargement des mesures du capteur…',
+  'Low': 'Bas',
+  'Low (%)': 'Bas (%)',
+  'Low priority': 'Priorité basse',
+  'Lowest': 'Minimum',
+  'Mark contacted': 'Marquer comme contacté',
+  'Mark reviewed': 'Marquer comme revu',
+  'Mean glucose': 'Glycémie moyenne',
+  'Mean sensor wear': 'Port moyen du capteur',
+  'Mean sensor wear (%)': 'Port moyen du capteur (%)',
+  'Measure': 'Mesure',
+  'Median': 'Médiane',
+  'Median, 25-75th and 5-95th percentiles by time of day': 'Médiane et centiles 25-75 et 5-95 selon l\'heure de la journée',
+  'Medium priority': 'Priorité moyenne',
+  'Met': 'Atteint',
+  'Metric': 'Indicateur',
+  'Missing glucose value': 'Valeur de glycémie manquante',
+  'Monthly': 'Mensuel',
+  'Name': 'Nom',
+  'No change': 'Sans changement',
+  'No data for this period': 'Aucune donnée pour cette période',
+  'No patients break the alert rules.': 'Aucun patient ne déclenche les règles d\'alerte.',
+  'No patients found': 'Aucun patient trouvé',
+  'No patients have at least {days} days of SG data in the selected date range. Try a longer range or import device data.': 'Aucun patient n\'a au moins {days} jours de données de glucose capteur sur la période sélectionnée. Essayez une période plus longue ou importez des données.',
+  'No readings in the period': 'Aucune mesure sur la période',
+  'No sensor readings are available for this patient.': 'Aucune mesure du capteur n\'est disponible pour ce patient.',
+  'Not assigned': 'Non attribué',
+  'Not met': 'Non atteint',
+  'Not reported': 'Non communiqué',
+  'Note': 'Note',
+  'Note for {patient}': 'Note pour {patient}',
+  'Older / high risk': 'Âgés / à risque élevé',
+  'Only patients with a minimum of {days} days of SG data are included.': 'Seuls les patients ayant au moins {days} jours de données de glucose capteur sont inclus.',
+  'Only patients with a minimum of {days} days of SG data are included. Last updated on {date}': 'Seuls les patients ayant au moins {days} jours de données de glucose capteur sont inclus. Dernière mise à jour le {date}',
+  'Optimal at or below': 'Optimal jusqu\'à',
+  'Paediatric (<18)': 'Pédiatrique (<18)',
+  'Page {page} of {pages}': 'Page {page} sur {pages}',
+  'Patient': 'Patient',
+  'Patient count': 'Nombre de patients',
+  'Patient ID': 'ID patient',
+  'Patient {id}': 'Patient {id}',
+  'Patients': 'Patients',
+  'Patients imported without a clinic only appear in the all clinics report.': 'Les patients importés sans clinique n\'apparaissent que dans le rapport de toutes les cliniques.',
+  'Patients included': 'Patients inclus',
+  'Patients to follow up': 'Patients à suivre',
+  'Patients with GMI {bucket}': 'Patients avec un GMI {bucket}',
+  'Patients with GMI {bucket} (%)': 'Patients avec un GMI {bucket} (%)',
+  'Patients with GMI {value}% or above': 'Patients avec un GMI de {value} % ou plus',
+  'Patients with GMI {value}% or below': 'Patients avec un GMI de {value} % ou moins',
+  'Payload is not a list of provider reports': 'La réponse n\'est pas une liste de rapports par praticien',
+  'Payload is not an object': 'La réponse n\'est pas un objet',
+  'Period': 'Période',
+  'Poor at or above': 'Insuffisant à partir de',
+  'Pregnancy (type 1)': 'Grossesse (type 1)',
+  'Previous period': 'Période précédente',
+  'Priority': 'Priorité',
+  'Provider': 'Praticien',
+  'Quarter to date': 'Trimestre en cours',
+  'Range': 'Plage',
+  'Readings (%)': 'Mesures (%)',
+  'Report generated': 'Rapport généré',
+  'Report {number}: {problem}': 'Rapport {number} : {problem}',
+  'Reporting days': 'Jours couverts',
+  'Reporting period': 'Période du rapport',
+  'Reports for a clinic and its providers are computed and drawn with these settings. Clinics without their own settings use the default ones.': 'Les rapports d\'une clinique et de ses praticiens sont calculés et tracés avec ces paramètres. Les cliniques sans paramètres propres utilisent ceux par défaut.',
+  'Reset to defaults': 'Rétablir les valeurs par défaut',
+  'Reset to standard': 'Rétablir le standard',
+  'Retry': 'Réessayer',
+  'Reviewed on {date}': 'Revu le {date}',
+  'Save': 'Enregistrer',
+  'Saved': 'Enregistré',
+  'Saved on {date}; the latest data could not be loaded.': 'Enregistrées le {date} ; les dernières données n\'ont pas pu être chargées.',
+  'Search patient ID': 'Rechercher un ID patient',
+  'Sensor wear': 'Port du capteur',
+  'Settings': 'Paramètres',
+  'Settings for': 'Paramètres pour',
+  'Share of patients': 'Part des patients',
+  'Show data table': 'Afficher le tableau de données',
+  'Showing {count} patients from the last {days} days of available data, {range}': '{count} patients sur les {days} derniers jours de données disponibles, {range}',
+  'Stale': 'Obsolètes',
+  'Standard': 'Standard',
+  'Start from': 'Partir de',
+  'Status': 'Statut',
+  'Summary': 'Synthèse',
+  'Target': 'Cible',
+  'Target Range': 'Plage cible',
+  'Target range from': 'Plage cible de',
+  'Target range to': 'Plage cible à',
+  'The clinic data failed validation, so no charts are shown:': 'Les données de la clinique n\'ont pas passé la validation, aucun graphique n\'est donc affiché :',
+  'The data export could not be generated': 'L\'export des données n\'a pas pu être généré',
+  'The optimal GMI cut point must be below the poor one': 'Le seuil optimal de GMI doit être inférieur au seuil insuffisant',
+  'The PDF report could not be generated': 'Le rapport PDF n\'a pas pu être généré',
+  'The report could not be loaded': 'Le rapport n\'a pas pu être chargé',
+  'The report data is invalid': 'Les données du rapport ne sont pas valides',
+  'Therapy': 'Traitement',
+  'There is no data for {option} to compare with.': 'Aucune donnée pour {option} à comparer.',
+  'This data source only provides figures computed with the standard ranges, so the {name} settings are not applied.': 'Cette source de données ne fournit que des chiffres calculés avec les plages standard ; les paramètres {name} ne sont donc pas appliqués.',
+  'Threshold': 'Seuil',
+  'Time': 'Heure',
+  'Time above {value}': 'Temps au-dessus de {value}',
+  'Time below {value}': 'Temps en dessous de {value}',
+  'Time in range': 'Temps dans la cible',
+  'Time in range (%)': 'Temps dans la cible (%)',
+  'Time in range {from}-{to}': 'Temps dans la cible {from}-{to}',
+  'TIR': 'TIR',
+  'To': 'Au',
+  'Trends over the last year': 'Tendances sur la dernière année',
+  'Type 1': 'Type 1',
+  'Type 2': 'Type 2',
+  'Unknown time zone "{timeZone}": use an IANA name such as Europe/Madrid': 'Fuseau horaire inconnu « {timeZone} » : utilisez un nom IANA comme Europe/Paris',
+  'Unrecognised file: expected a Dexcom Clarity or LibreView CSV export': 'Fichier non reconnu : un export CSV Dexcom Clarity ou LibreView est attendu',
+  'Up': 'En hausse',
+  'Up to date': 'À jour',
+  'Use default settings': 'Utiliser les paramètres par défaut',
+  'Using the default settings': 'Utilise les paramètres par défaut',
+  'Value': 'Valeur',
+  'Very High': 'Très haut',
+  'Very high': 'Très haut',
+  'Very high (%)': 'Très haut (%)',
+  'Very high above': 'Très haut au-dessus de',
+  'Very Low': 'Très bas',
+  'Very low': 'Très bas',
+  'Very low (%)': 'Très bas (%)',
+  'Very low below': 'Très bas en dessous de',
+  'vs': 'contre',
+  'Weekly': 'Hebdomadaire',
+  'worse': 'moins bien',
+  '{chart} chart. Use the arrow keys to move between periods.': 'Graphique {chart}. Utilisez les flèches pour passer d\'une période à l\'autre.',
+  '{chart} chart. Use the arrow keys to move between segments, and Enter to list their patients.': 'Graphique {chart}. Utilisez les flèches pour passer d\'un segment à l\'autre, et Entrée pour afficher leurs patients.',
+  '{chart} chart. Use the arrow keys to move between segments.': 'Graphique {chart}. Utilisez les flèches pour passer d\'un segment à l\'autre.',
+  '{count} already imported': '{count} déjà importées',
+  '{count} new readings': '{count} nouvelles mesures',
+  '{count} non-glucose rows skipped': '{count} lignes sans glycémie ignorées',
+  '{count} patients': '{count} patients',
+  '{count} rows rejected': '{count} lignes rejetées',
+  '{current} compared with {baseline}': '{current} comparé à {baseline}',
+  '{days} days': '{days} jours',
+  '{field} is missing': '{field} est manquant',
+  '{field} is not an object': '{field} n\'est pas un objet',
+  '{field} must be a non-negative whole number': '{field} doit être un nombre entier positif ou nul',
+  '{field} must be a percentage between 0 and 100': '{field} doit être un pourcentage entre 0 et 100',
+  '{field} must be a positive whole number': '{field} doit être un nombre entier strictement positif',
+  '{format} ({unit}) for {patient}:': '{format} ({unit}) pour {patient} :',
+  '{label} add up to {actual}% instead of {expected}%': '{label} totalisent {actual} % au lieu de {expected} %',
+  '{option} covers the same dates as the current period. Choose another comparison.': '{option} couvre les mêmes dates que la période actuelle. Choisissez une autre comparaison.',
+  '{option} has too few patients in the cohort to compare with.': '{option} compte trop peu de patients dans la cohorte pour comparer.',
+  '{p}th percentile': '{p}e centile',
+  '{shown} of {total} patients': '{shown} patients sur {total}',
+  '…and {count} more': '…et {count} de plus'
+};
@@ -1,6 +1,13 @@
+import { isDevMode } from '@angular/core';
 import { bootstrapApplication } from '@angular/platform-browser';
 import { appConfig } from './app/app.config';
 import { AppComponent } from './app/app.component';
 
 bootstrapApplication(AppComponent, appConfig)
   .catch((err) => console.error(err));
+
+// Lets the dashboard open offline; left out of development builds so reloads always get new code
+if (!isDevMode() && 'serviceWorker' in navigator) {
+  navigator.serviceWorker.register('/sw.js')
+    .catch((error) => console.warn('Offline support is unavailable:', error));
+}
@@ -0,0 +1,27 @@
+import { PatientFollowUpService } from './patient-follow-up.service';
+
+describe('PatientFollowUpService', () => {
+  beforeEach(() => {
+    localStorage.removeItem('clinic-outcomes.follow-ups');
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date('2024-02-01T10:30:00Z'));
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('clinic-outcomes.follow-ups');
+    jasmine.clock().uninstall();
+  });
+
+  it('should remember the latest follow-up for each patient', () => {
+    const service = new PatientFollowUpService();
+    service.record('p1', 'reviewed', 'Looked at overnight lows');
+    service.record('p1', 'contacted', '  Lowered basal dose ');
+
+    expect(new PatientFollowUpService().getFollowUp('p1')).toEqual({
+      status: 'contacted',
+      note: 'Lowered basal dose',
+      recordedAt: '2024-02-01T10:30:00.000Z'
+    });
+    expect(service.getFollowUp('p2')).toBeNull();
+  });
+});
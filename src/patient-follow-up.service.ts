@@ -0,0 +1,62 @@
+import { Injectable } from '@angular/core';
+
+export type FollowUpStatus = 'reviewed' | 'contacted';
+
+// The latest action taken on a worklist patient
+export interface PatientFollowUp {
+  status: FollowUpStatus;
+  note: string;
+  recordedAt: string; // ISO 8601 timestamp
+}
+
+const STORAGE_KEY = 'clinic-outcomes.follow-ups';
+
+/**
+ * What the care team last did about each worklist patient, persisted in
+ * local storage on this device
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PatientFollowUpService {
+
+  private saved: { [patientId: string]: PatientFollowUp } = this.load();
+
+  /**
+   * The latest follow-up recorded for a patient, if any
+   * @param patientId - The patient identifier
+   */
+  getFollowUp(patientId: string): PatientFollowUp | null {
+    return this.saved[patientId] ?? null;
+  }
+
+  /**
+   * Mark a patient reviewed or contacted, replacing any earlier follow-up
+   * @param patientId - The patient identifier
+   * @param status - What was done
+   * @param note - Free text, e.g. the outcome of the call
+   */
+  record(patientId: string, status: FollowUpStatus, note: string): PatientFollowUp {
+    const followUp = { status, note: note.trim(), recordedAt: new Date().toISOString() };
+    this.saved = { ...this.saved, [patientId]: followUp };
+    this.persist();
+    return followUp;
+  }
+
+  private load(): { [patientId: string]: PatientFollowUp } {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  // Follow-ups stay in memory when local storage is unavailable
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.saved));
+    } catch (error) {
+      console.warn('Follow-ups could not be saved to local storage:', error);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { ClinicData, PatientSummary } from './clinic-reports.service';
+import { GlucoseUnitService } from './glucose-unit.service';
+import { ReportExportService } from './report-export.service';
+
+describe('ReportExportService', () => {
+  const glucoseUnit = new GlucoseUnitService();
+  const service = new ReportExportService(glucoseUnit);
+  const data: ClinicData = {
+    patientCount: 120,
+    reportingDays: 30,
+    dateRange: '2024-01-01/2024-01-30',
+    lastUpdated: '2024-01-31T15:00:00Z',
+    timeInRange: { inRange: 82, aboveRange: 16, belowRange: 2, veryLow: 1, low: 1, high: 15, veryHigh: 1 },
+    gmi: { average: 6.7, distribution: { optimal: 72, suboptimal: 23, poor: 5 } }
+  };
+  const scope = { clinic: 'All clinics', provider: 'All providers' };
+  const patient: PatientSummary = {
+    patientId: 'P-0001',
+    daysWithData: 27,
+    gmi: 6.74,
+    timeInRange: { inRange: 85.25, aboveRange: 12, belowRange: 2.75, veryLow: 0.5, low: 2.25, high: 10, veryHigh: 2 },
+    lastUpload: '2024-01-30T04:28:00Z'
+  };
+
+  beforeEach(() => glucoseUnit.setUnit('mg/dL'));
+
+  afterEach(() => localStorage.removeItem('clinic-outcomes.glucose-unit'));
+
+  it('should include every TIR tier and GMI bucket in the summary', () => {
+    const rows = service.summaryRows(data, scope);
+
+    expect(rows[0]).toEqual(['Metric', 'Value']);
+    expect(rows).toContain(['Clinic', 'All clinics']);
+    expect(rows).toContain(['Patient count', 120]);
+    expect(rows).toContain(['Very high >250 mg/dL (%)', 1]);
+    expect(rows).toContain(['Patients with GMI ≥8% (%)', 5]);
+  });
+
+  it('should account for excluded patients when the report does', () => {
+    const rows = service.summaryRows({
+      ...data,
+      dataQuality: {
+        enrolledCount: 126,
+        excluded: { noData: 2, insufficientData: 4 },
+        sensorWear: { average: 84, distribution: { from0: 2, from50: 10, from70: 60, from90: 54 } }
+      }
+    }, scope);
+
+    expect(rows).toContain(['Enrolled patients', 126]);
+    expect(rows).toContain(['Excluded: fewer than 10 days of data', 4]);
+    expect(rows).toContain(['Mean sensor wear (%)', 84]);
+    expect(service.summaryRows(data, scope)).not.toContain(['Enrolled patients', jasmine.anything()]);
+  });
+
+  it('should label the ranges in the user\'s unit', () => {
+    glucoseUnit.setUnit('mmol/L');
+    const rows = service.summaryRows(data, scope);
+
+    expect(rows).toContain(['Low 3.0-3.8 mmol/L (%)', 1]);
+    expect(rows).toContain(['In range 3.9-10.0 mmol/L (%)', 82]);
+    expect(rows).toContain(['High 10.1-13.9 mmol/L (%)', 15]);
+    expect(rows).toContain(['Very high >13.9 mmol/L (%)', 1]);
+  });
+
+  it('should name the clinic and provider rather than print their ids', () => {
+    const rows = service.summaryRows({ ...data, clinicId: 'c1', providerId: 'd1' }, { clinic: 'Central Clinic', provider: 'Dr. Ana Silva' });
+
+    expect(rows).toContain(['Clinic', 'Central Clinic']);
+    expect(rows).toContain(['Provider', 'Dr. Ana Silva']);
+  });
+
+  it('should write one row per patient', () => {
+    const rows = service.patientRows([patient]);
+
+    expect(rows.length).toBe(2);
+    expect(rows[1]).toEqual(['P-0001', 27, 0.5, 2.3, 85.3, 10, 2, 6.7, '2024-01-30T04:28:00Z']);
+  });
+
+  it('should quote CSV cells that contain separators', () => {
+    expect(service.toCsv([['Date range', '01/01/2024, 3:00 PM'], ['Say "hi"', 1]]))
+      .toBe('Date range,"01/01/2024, 3:00 PM"\r\n"Say ""hi""",1\r\n');
+  });
+
+  it('should only add a patients file when patients are available', () => {
+    expect(service.buildCsvFiles(data, scope).length).toBe(1);
+    expect(service.buildCsvFiles(data, scope, [patient]).map(file => file.name))
+      .toEqual(['clinic-outcomes', 'clinic-outcomes-patients']);
+  });
+
+  it('should build an xlsx workbook', async () => {
+    const blob = await service.buildWorkbook(data, scope, [patient]);
+    const signature = new Uint8Array(await blob.slice(0, 2).arrayBuffer());
+
+    // .xlsx files are zip archives
+    expect(String.fromCharCode(...signature)).toBe('PK');
+  });
+});
@@ -0,0 +1,141 @@
+import { Injectable } from '@angular/core';
+import { ClinicData, PatientSummary, ScopeNames, describeCohort } from './clinic-reports.service';
+import { MIN_DAYS_OF_DATA } from './clinic-metrics.service';
+import { downloadFile } from './download-file';
+import { gmiLabel, thresholdsOf } from './glucose-settings.service';
+import { GlucoseUnitService, formatGlucose } from './glucose-unit.service';
+import { t } from './i18n.service';
+
+export type ExportCell = string | number;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ReportExportService {
+
+  constructor(private glucoseUnit: GlucoseUnitService) { }
+
+  /**
+   * One row per reported metric, with a header row. Labels are translated;
+   * dates stay ISO 8601 so the file reads the same in every locale.
+   * @param data - The clinic report
+   * @param scope - Names of the report's clinic and provider
+   */
+  summaryRows(data: ClinicData, scope: ScopeNames): ExportCell[][] {
+    const tir = data.timeInRange;
+    const gmi = data.gmi;
+    const { ranges: r, gmi: cut } = thresholdsOf(data);
+    const unit = this.glucoseUnit.unit;
+    const f = (mgdl: number, steps = 0) => formatGlucose(mgdl, unit, steps);
+    const quality = data.dataQuality;
+    return [
+      [t('Metric'), t('Value')],
+      [t('Clinic'), scope.clinic],
+      [t('Provider'), scope.provider],
+      [t('Cohort'), describeCohort(data.cohort)],
+      [t('Reporting days'), data.reportingDays],
+      [t('Date range'), data.dateRange],
+      [t('Last updated'), data.lastUpdated],
+      [t('Patient count'), data.patientCount],
+      ...(quality ? [
+        [t('Enrolled patients'), quality.enrolledCount],
+        [t('Excluded: no readings in the period'), quality.excluded.noData],
+        [t('Excluded: fewer than {days} days of data', { days: MIN_DAYS_OF_DATA }), quality.excluded.insufficientData]
+      ] : []),
+      ...(quality?.sensorWear ? [[t('Mean sensor wear (%)'), quality.sensorWear.average]] : []),
+      [`${t('Very low')} <${f(r.veryLow)} ${unit} (%)`, tir.veryLow],
+      [`${t('Low')} ${f(r.veryLow)}-${f(r.low, -1)} ${unit} (%)`, tir.low],
+      [`${t('Below range')} <${f(r.low)} ${unit} (%)`, tir.belowRange],
+      [`${t('In range')} ${f(r.low)}-${f(r.high)} ${unit} (%)`, tir.inRange],
+      [`${t('Above range')} >${f(r.high)} ${unit} (%)`, tir.aboveRange],
+      [`${t('High')} ${f(r.high, 1)}-${f(r.veryHigh)} ${unit} (%)`, tir.high],
+      [`${t('Very high')} >${f(r.veryHigh)} ${unit} (%)`, tir.veryHigh],
+      [t('Average GMI (%)'), gmi.average],
+      [t('Patients with GMI {bucket} (%)', { bucket: gmiLabel('optimal', cut) }), gmi.distribution.optimal],
+      [t('Patients with GMI {bucket} (%)', { bucket: gmiLabel('suboptimal', cut) }), gmi.distribution.suboptimal],
+      [t('Patients with GMI {bucket} (%)', { bucket: gmiLabel('poor', cut) }), gmi.distribution.poor]
+    ];
+  }
+
+  /**
+   * One row per patient, with a header row
+   * @param patients - Patient-level metrics
+   */
+  patientRows(patients: PatientSummary[]): ExportCell[][] {
+    return [
+      [t('Patient ID'), t('Days with data'), t('Very low (%)'), t('Low (%)'), t('In range (%)'), t('High (%)'), t('Very high (%)'), 'GMI (%)', t('Last upload')],
+      ...patients.map(patient => [
+        patient.patientId,
+        patient.daysWithData,
+        this.round(patient.timeInRange.veryLow),
+        this.round(patient.timeInRange.low),
+        this.round(patient.timeInRange.inRange),
+        this.round(patient.timeInRange.high),
+        this.round(patient.timeInRange.veryHigh),
+        this.round(patient.gmi),
+        patient.lastUpload
+      ])
+    ];
+  }
+
+  /**
+   * Serialise rows as RFC 4180 CSV
+   */
+  toCsv(rows: ExportCell[][]): string {
+    const escape = (cell: ExportCell) => {
+      const text = String(cell);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Build the CSV files for a report: the summary, plus patients when available
+   * @param data - The clinic report
+   * @param scope - Names of the report's clinic and provider
+   * @param patients - Patient-level metrics, if loaded
+   */
+  buildCsvFiles(data: ClinicData, scope: ScopeNames, patients: PatientSummary[] = []): { name: string; blob: Blob }[] {
+    // The byte order mark makes Excel read the file as UTF-8
+    const csv = (rows: ExportCell[][]) => new Blob(['\uFEFF' + this.toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+    const files = [{ name: 'clinic-outcomes', blob: csv(this.summaryRows(data, scope)) }];
+    if (patients.length) {
+      files.push({ name: 'clinic-outcomes-patients', blob: csv(this.patientRows(patients)) });
+    }
+    return files;
+  }
+
+  /**
+   * Build an .xlsx workbook with a Summary sheet and, when available, a Patients sheet.
+   * The writer is loaded on demand so it stays out of the initial bundle.
+   * @param data - The clinic report
+   * @param scope - Names of the report's clinic and provider
+   * @param patients - Patient-level metrics, if loaded
+   */
+  async buildWorkbook(data: ClinicData, scope: ScopeNames, patients: PatientSummary[] = []): Promise<Blob> {
+    const { default: writeXlsxFile } = await import('write-excel-file/universal');
+    const sheets = [{ sheet: t('Summary'), data: this.summaryRows(data, scope) }];
+    if (patients.length) {
+      sheets.push({ sheet: t('Patients'), data: this.patientRows(patients) });
+    }
+    return writeXlsxFile(sheets).toBlob();
+  }
+
+  /**
+   * Download the report as CSV
+   */
+  exportCsv(data: ClinicData, scope: ScopeNames, patients: PatientSummary[] = []) {
+    this.buildCsvFiles(data, scope, patients).forEach(file => downloadFile(file.blob, 'csv', file.name));
+  }
+
+  /**
+   * Download the report as an Excel workbook
+   */
+  async exportWorkbook(data: ClinicData, scope: ScopeNames, patients: PatientSummary[] = []) {
+    downloadFile(await this.buildWorkbook(data, scope, patients), 'xlsx');
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
@@ -0,0 +1,57 @@
+import { ClinicData } from './clinic-reports.service';
+import { ClinicMetricsService } from './clinic-metrics.service';
+import { GlucoseUnitService } from './glucose-unit.service';
+import { ReportPdfService, toPdfText } from './report-pdf.service';
+
+describe('ReportPdfService', () => {
+  const service = new ReportPdfService(new ClinicMetricsService(), new GlucoseUnitService());
+  const data: ClinicData = {
+    patientCount: 120,
+    reportingDays: 30,
+    dateRange: '2024-01-01/2024-01-30',
+    lastUpdated: '2024-01-31T15:00:00Z',
+    timeInRange: { inRange: 82, aboveRange: 16, belowRange: 2, veryLow: 1, low: 1, high: 15, veryHigh: 1 },
+    gmi: { average: 6.7, distribution: { optimal: 72, suboptimal: 23, poor: 5 } }
+  };
+
+  it('should build a PDF document', async () => {
+    const blob = await service.buildReport({ data, scope: { clinic: 'All clinics', provider: 'All providers' }, charts: [] });
+    const header = await blob.slice(0, 5).text();
+
+    expect(blob.type).toBe('application/pdf');
+    expect(header).toBe('%PDF-');
+  });
+
+  it('should number every page', async () => {
+    // 1x1 PNG; each 600px square chart needs a page of its own
+    const image = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+    const chart = { title: 'Chart', image, width: 600, height: 600 };
+    const blob = await service.buildReport({ data, scope: { clinic: 'All clinics', provider: 'All providers' }, charts: [chart, chart, chart] });
+    const text = await blob.text();
+
+    expect(text).toContain('Page 1 of 4');
+    expect(text).toContain('Page 4 of 4');
+  });
+
+  it('should name the clinic and provider in the header', async () => {
+    const blob = await service.buildReport({ data, scope: { clinic: 'Central Clinic', provider: 'Dr. Ana Silva' }, charts: [] });
+    const text = await blob.text();
+
+    expect(text).toContain('Clinic: Central Clinic / Provider: Dr. Ana Silva');
+  });
+
+  it('should write the reporting period with characters the PDF font can encode', async () => {
+    const blob = await service.buildReport({ data, scope: { clinic: 'All clinics', provider: 'All providers' }, charts: [] });
+    const text = await blob.text();
+
+    // PDF strings escape their parentheses
+    expect(text).toContain('Reporting period: 30 days \\(Jan 1 - 30, 2024\\)');
+  });
+
+  it('should spell out characters outside Latin-1', () => {
+    expect(toPdfText('Jan 1\u2009\u2013\u200930, 2024')).toBe('Jan 1 - 30, 2024');
+    expect(toPdfText('GMI \u22658%')).toBe('GMI >=8%');
+    expect(toPdfText('1\u202f234,5\u00a0%')).toBe('1 234,5\u00a0%');
+    expect(toPdfText('Clínica \u2713')).toBe('Clínica ?');
+  });
+});
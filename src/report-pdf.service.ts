@@ -0,0 +1,220 @@
+import { Injectable } from '@angular/core';
+import type { Chart } from 'chart.js';
+import type { jsPDF } from 'jspdf';
+import { ClinicData, ScopeNames, describeCohort } from './clinic-reports.service';
+import { ClinicMetricsService, MIN_DAYS_OF_DATA } from './clinic-metrics.service';
+import { downloadFile } from './download-file';
+import { formatGmiCutPoint, gmiLabel, thresholdsOf } from './glucose-settings.service';
+import { GlucoseUnitService, formatGlucose } from './glucose-unit.service';
+import { formatDateRange, formatDateTime, formatNumber, t } from './i18n.service';
+
+// A chart rendered to an image for the PDF
+export interface PdfChartImage {
+  title: string;
+  image: string;  // PNG data URL
+  width: number;  // CSS pixels, used for the aspect ratio
+  height: number;
+}
+
+// Everything that goes into the exported report
+export interface PdfReportContent {
+  data: ClinicData;
+  scope: ScopeNames; // Names of the report's clinic and provider
+  charts: PdfChartImage[];
+}
+
+// A4 portrait, in millimetres
+const PAGE = { width: 210, height: 297, margin: 15, footer: 18 };
+
+// CSS pixels at 96 dpi
+const MM_PER_PX = 25.4 / 96;
+
+// Characters Intl and the translations produce that the standard PDF fonts
+// cannot encode, e.g. the thin spaces and en dash of "Jan 1 – 30, 2024"
+const PDF_REPLACEMENTS: [RegExp, string][] = [
+  [/[\u2007-\u200a\u202f]/g, ' '],
+  [/[\u2010-\u2015\u2212]/g, '-'],
+  [/\u2264/g, '<='],
+  [/\u2265/g, '>='],
+  [/[\u2018\u2019]/g, "'"],
+  [/[\u201c\u201d]/g, '"'],
+  [/\u2026/g, '...']
+];
+
+/**
+ * Text the standard PDF fonts can draw: Latin-1, with Unicode spaces, dashes
+ * and comparison signs spelled out and any other character replaced by "?"
+ * @param text - Text to draw
+ */
+export function toPdfText(text: string): string {
+  return PDF_REPLACEMENTS
+    .reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text)
+    .replace(/[^\x00-\xff]/g, '?');
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ReportPdfService {
+
+  constructor(private metrics: ClinicMetricsService, private glucoseUnit: GlucoseUnitService) { }
+
+  /**
+   * Render a chart to a high-resolution PNG by temporarily raising its pixel ratio
+   * @param chart - The Chart.js instance
+   * @param title - Caption shown above the image in the PDF
+   * @param scale - Device pixel ratio to render at
+   */
+  captureChart(chart: Chart, title: string, scale = 3): PdfChartImage {
+    const originalRatio = chart.options.devicePixelRatio;
+    chart.options.devicePixelRatio = scale;
+    chart.resize();
+
+    const image = chart.toBase64Image('image/png', 1);
+    const { width, height } = chart;
+
+    chart.options.devicePixelRatio = originalRatio;
+    chart.resize();
+
+    return { title, image, width, height };
+  }
+
+  /**
+   * Build the multi-page clinic report PDF.
+   * jsPDF is loaded on demand so it stays out of the initial bundle.
+   * @param content - Report data and chart images
+   */
+  async buildReport(content: PdfReportContent): Promise<Blob> {
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+    const data = content.data;
+    let y = PAGE.margin;
+
+    // Clinic header
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.text(toPdfText(t('Clinic Outcomes Report')), PAGE.margin, y + 5);
+    y += 14;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    [
+      `${t('Clinic')}: ${content.scope.clinic} / ${t('Provider')}: ${content.scope.provider}`,
+      `${t('Cohort')}: ${describeCohort(data.cohort)}`,
+      `${t('Reporting period')}: ${t('{days} days', { days: data.reportingDays })} (${formatDateRange(data.dateRange)})`,
+      `${t('Patients included')}: ${data.patientCount}`,
+      `${t('Data last updated')}: ${formatDateTime(data.lastUpdated)}`,
+      `${t('Report generated')}: ${formatDateTime(new Date())}`
+    ].forEach(line => {
+      doc.text(toPdfText(line), PAGE.margin, y);
+      y += 5;
+    });
+    y += 4;
+
+    // Data tables
+    const tir = data.timeInRange;
+    const { ranges: r, gmi: cut } = thresholdsOf(data);
+    const unit = this.glucoseUnit.unit;
+    const f = (mgdl: number, steps = 0) => formatGlucose(mgdl, unit, steps);
+    y = this.drawTable(doc, y, t('Time in range'), [t('Range'), t('Readings (%)')], [
+      [`${t('Very high')} (>${f(r.veryHigh)} ${unit})`, `${tir.veryHigh}%`],
+      [`${t('High')} (${f(r.high, 1)}-${f(r.veryHigh)} ${unit})`, `${tir.high}%`],
+      [`${t('Target')} (${f(r.low)}-${f(r.high)} ${unit})`, `${tir.inRange}%`],
+      [`${t('Low')} (${f(r.veryLow)}-${f(r.low, -1)} ${unit})`, `${tir.low}%`],
+      [`${t('Very low')} (<${f(r.veryLow)} ${unit})`, `${tir.veryLow}%`]
+    ]);
+
+    y = this.drawTable(doc, y, t('International Consensus targets'), [t('Target'), t('Goal'), t('Clinic'), t('Status')],
+      this.metrics.evaluateConsensusTargets(data, unit).map(result => [
+        result.label, result.goal, `${result.value}%`, result.met ? t('Met') : t('Not met')
+      ]));
+
+    const gmi = data.gmi;
+    y = this.drawTable(doc, y, t('Glucose Management Indicator (GMI)'), [t('Measure'), t('Value')], [
+      [t('Average GMI'), `${formatNumber(gmi.average, 1)}%`],
+      // The standard PDF fonts have no ≤/≥ glyphs
+      [t('Patients with GMI {value}% or below', { value: formatGmiCutPoint(cut.optimal) }), `${gmi.distribution.optimal}%`],
+      [t('Patients with GMI {bucket}', { bucket: gmiLabel('suboptimal', cut) }), `${gmi.distribution.suboptimal}%`],
+      [t('Patients with GMI {value}% or above', { value: formatGmiCutPoint(cut.poor) }), `${gmi.distribution.poor}%`]
+    ]);
+
+    // Chart images, scaled to the content width
+    const contentWidth = PAGE.width - PAGE.margin * 2;
+    content.charts.forEach(chart => {
+      const width = Math.min(contentWidth, chart.width * MM_PER_PX);
+      const height = width * (chart.height / chart.width);
+      y = this.ensureSpace(doc, y, height + 10);
+
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.text(toPdfText(chart.title), PAGE.margin, y);
+      doc.addImage(chart.image, 'PNG', PAGE.margin + (contentWidth - width) / 2, y + 3, width, height);
+      y += height + 12;
+    });
+
+    this.drawFooters(doc);
+    return doc.output('blob');
+  }
+
+  /**
+   * Save a generated PDF report
+   */
+  downloadReport(blob: Blob) {
+    downloadFile(blob, 'pdf');
+  }
+
+  private drawTable(doc: jsPDF, y: number, title: string, headers: string[], rows: string[][]): number {
+    const rowHeight = 6;
+    const width = PAGE.width - PAGE.margin * 2;
+    const columnWidth = width / headers.length;
+    y = this.ensureSpace(doc, y, rowHeight * (rows.length + 1) + 10);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(toPdfText(title), PAGE.margin, y);
+    y += 3;
+
+    [headers, ...rows].forEach((row, rowIndex) => {
+      if (rowIndex === 0) {
+        doc.setFillColor(248, 249, 250);
+        doc.rect(PAGE.margin, y, width, rowHeight, 'F');
+      }
+      doc.setFont('helvetica', rowIndex === 0 ? 'bold' : 'normal');
+      doc.setFontSize(9);
+      row.forEach((cell, column) => {
+        doc.text(toPdfText(cell), PAGE.margin + 2 + column * columnWidth, y + 4.2);
+      });
+      doc.setDrawColor(222, 226, 230);
+      doc.line(PAGE.margin, y + rowHeight, PAGE.margin + width, y + rowHeight);
+      y += rowHeight;
+    });
+
+    return y + 8;
+  }
+
+  // Start a new page when the next block would run into the footer
+  private ensureSpace(doc: jsPDF, y: number, needed: number): number {
+    if (y + needed > PAGE.height - PAGE.footer) {
+      doc.addPage();
+      return PAGE.margin + 5;
+    }
+    return y;
+  }
+
+  private drawFooters(doc: jsPDF) {
+    const pages = doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      doc.setPage(page);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(102, 102, 102);
+      doc.text(
+        toPdfText(t('Only patients with a minimum of {days} days of SG data are included.', { days: MIN_DAYS_OF_DATA })),
+        PAGE.margin,
+        PAGE.height - 10
+      );
+      doc.text(toPdfText(t('Page {page} of {pages}', { page, pages })), PAGE.width - PAGE.margin, PAGE.height - 10, { align: 'right' });
+      doc.setTextColor(0, 0, 0);
+    }
+  }
+}
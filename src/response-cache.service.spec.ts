@@ -0,0 +1,67 @@
+import { Observable, lastValueFrom, of, throwError } from 'rxjs';
+import { CACHE_TTL_MS, MemoryResponseStore, ResponseCacheService, isExpired } from './response-cache.service';
+
+describe('ResponseCacheService', () => {
+  let cache: ResponseCacheService;
+  let requests: number;
+
+  // Counts the requests that reach the data source
+  const load = (value: string) => (): Observable<string> => {
+    requests++;
+    return of(value);
+  };
+
+  beforeEach(() => {
+    cache = new ResponseCacheService(new MemoryResponseStore());
+    requests = 0;
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date('2024-01-31T12:00:00Z'));
+  });
+
+  afterEach(() => jasmine.clock().uninstall());
+
+  it('should answer from the cache until the response expires', async () => {
+    await lastValueFrom(cache.get('trends:weekly', load('first')));
+    const cached = await lastValueFrom(cache.get('trends:weekly', load('second')));
+
+    expect(cached.value).toBe('first');
+    expect(cached.fetchedAt).toBe('2024-01-31T12:00:00.000Z');
+    expect(cached.stale).toBeUndefined();
+    expect(requests).toBe(1);
+
+    jasmine.clock().tick(CACHE_TTL_MS + 1);
+    const refreshed = await lastValueFrom(cache.get('trends:weekly', load('third')));
+
+    expect(refreshed.value).toBe('third');
+    expect(refreshed.stale).toBeUndefined();
+    expect(requests).toBe(2);
+  });
+
+  it('should fall back to an expired response when the data source cannot be reached', async () => {
+    await lastValueFrom(cache.get('readings', load('saved')));
+    jasmine.clock().tick(CACHE_TTL_MS + 1);
+
+    const cached = await lastValueFrom(cache.get('readings', () => throwError(() => new Error('Offline'))));
+
+    expect(cached.value).toBe('saved');
+    expect(cached.stale).toBeTrue();
+  });
+
+  it('should not mark a response stale because it has since expired', async () => {
+    const fetched = await lastValueFrom(cache.get('readings', load('saved')));
+    jasmine.clock().tick(CACHE_TTL_MS + 1);
+
+    expect(fetched.stale).toBeUndefined();
+  });
+
+  it('should pass on the error when nothing is cached', async () => {
+    await expectAsync(lastValueFrom(cache.get('readings', () => throwError(() => new Error('Offline'))))).toBeRejectedWithError('Offline');
+  });
+
+  it('should only expire responses older than the TTL', () => {
+    const now = new Date('2024-01-31T12:00:00Z');
+
+    expect(isExpired('2024-01-31T11:50:00Z', now)).toBeFalse();
+    expect(isExpired('2024-01-31T11:40:00Z', now)).toBeTrue();
+  });
+});
@@ -0,0 +1,156 @@
+import { Inject, Injectable, InjectionToken } from '@angular/core';
+import { Observable, catchError, defer, map, of, switchMap, throwError } from 'rxjs';
+
+// A data source response and when it was fetched
+export interface CachedResponse<T> {
+  value: T;
+  fetchedAt: string; // ISO 8601 timestamp
+  stale?: boolean;   // Set when it is shown because the data source could not refresh it
+}
+
+// Responses younger than this are used without asking the data source again
+export const CACHE_TTL_MS = 15 * 60 * 1000;
+
+const DB_NAME = 'clinic-outcomes';
+const STORE_NAME = 'responses';
+
+/**
+ * Whether a response is older than the cache keeps it for, so it must be
+ * refetched before it is used
+ * @param fetchedAt - When the response was fetched
+ * @param now - The current time
+ */
+export function isExpired(fetchedAt: string, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(fetchedAt).getTime() > CACHE_TTL_MS;
+}
+
+/**
+ * Where responses are kept between visits
+ */
+export abstract class ResponseStore {
+  abstract read<T>(key: string): Promise<CachedResponse<T> | undefined>;
+  abstract write<T>(key: string, cached: CachedResponse<T>): void;
+}
+
+/**
+ * Responses in the browser's IndexedDB; nothing is kept where it is
+ * unavailable, e.g. private browsing
+ */
+export class IndexedDbResponseStore extends ResponseStore {
+  private database = this.open();
+
+  async read<T>(key: string): Promise<CachedResponse<T> | undefined> {
+    const db = await this.database;
+    if (!db) {
+      return undefined;
+    }
+    return new Promise<CachedResponse<T> | undefined>(resolve => {
+      const request = db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(undefined);
+    });
+  }
+
+  write<T>(key: string, cached: CachedResponse<T>) {
+    this.database.then(db => {
+      try {
+        db?.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(cached, key);
+      } catch (error) {
+        console.warn(`The ${key} response could not be saved for offline use:`, error);
+      }
+    });
+  }
+
+  // Resolves to null where IndexedDB is unavailable
+  private open(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+    return new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+}
+
+/**
+ * Responses kept for the life of the store only, e.g. in tests
+ */
+export class MemoryResponseStore extends ResponseStore {
+  private responses = new Map<string, CachedResponse<unknown>>();
+
+  async read<T>(key: string): Promise<CachedResponse<T> | undefined> {
+    return this.responses.get(key) as CachedResponse<T> | undefined;
+  }
+
+  write<T>(key: string, cached: CachedResponse<T>) {
+    this.responses.set(key, cached);
+  }
+}
+
+export const RESPONSE_STORE = new InjectionToken<ResponseStore>('RESPONSE_STORE', {
+  providedIn: 'root',
+  factory: () => new IndexedDbResponseStore()
+});
+
+/**
+ * Data source responses kept in memory and in IndexedDB, so switching back
+ * to a period needs no request and the dashboard still opens offline.
+ * Fresh responses are used as they are; expired ones are refetched, and
+ * shown anyway when the data source cannot be reached.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ResponseCacheService {
+
+  private memory = new Map<string, CachedResponse<unknown>>();
+
+  constructor(@Inject(RESPONSE_STORE) private store: ResponseStore) { }
+
+  /**
+   * A response from the cache, or from the data source when it has none
+   * fresh enough
+   * @param key - Identifies the request, e.g. 'readings'
+   * @param load - Requests the response from the data source
+   */
+  get<T>(key: string, load: () => Observable<T>): Observable<CachedResponse<T>> {
+    return defer(() => this.read<T>(key)).pipe(
+      switchMap(cached => {
+        if (cached && !isExpired(cached.fetchedAt)) {
+          return of(cached);
+        }
+        return load().pipe(
+          map(value => this.write(key, value)),
+          catchError(error => {
+            if (cached) {
+              console.warn(`Showing the cached ${key} response, as it could not be refreshed:`, error);
+              return of({ ...cached, stale: true });
+            }
+            return throwError(() => error);
+          })
+        );
+      })
+    );
+  }
+
+  private async read<T>(key: string): Promise<CachedResponse<T> | undefined> {
+    if (this.memory.has(key)) {
+      return this.memory.get(key) as CachedResponse<T>;
+    }
+    const stored = await this.store.read<T>(key);
+    if (stored) {
+      this.memory.set(key, stored);
+    }
+    return stored;
+  }
+
+  private write<T>(key: string, value: T): CachedResponse<T> {
+    const cached = { value, fetchedAt: new Date().toISOString() };
+    this.memory.set(key, cached);
+    this.store.write(key, cached);
+    return cached;
+  }
+}